@@ -60,6 +60,7 @@ describe('E2E build consistency tests', () => {
     expect(stdout).toContain('CJS test passed');
   });
 
+  // Type-checking every entry point takes longer than the default timeout
   it('should have valid TypeScript types', async () => {
     const { stderr } = await execAsync(
       'pnpm tsc --noEmit -p e2e/tsconfig.json',
@@ -68,5 +69,5 @@ describe('E2E build consistency tests', () => {
       },
     );
     expect(stderr).toBe('');
-  });
+  }, 30_000);
 });
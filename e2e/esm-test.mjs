@@ -2,7 +2,9 @@ import fs from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { z } from 'zod';
+import { createZodAuto } from '../dist/esm/auto.mjs';
 import { createZodJSON } from '../dist/esm/json.mjs';
+import { createZodJSONC } from '../dist/esm/jsonc.mjs';
 
 const TestSchema = z.object({
   name: z.string(),
@@ -52,6 +54,45 @@ async function main() {
     // Cleanup
     await fs.unlink(testFile);
 
+    // Save and load data in the format of the extension
+    const autoFile = join(tmpdir(), `zod-file-e2e-esm-${Date.now()}.yaml`);
+    const autoStore = createZodAuto({
+      schema: TestSchema,
+    });
+    await autoStore.save(testData, autoFile);
+    const autoContent = await fs.readFile(autoFile, 'utf-8');
+    const autoLoaded = await autoStore.load(autoFile);
+    await fs.unlink(autoFile);
+    if (
+      !autoContent.includes(`name: ${testData.name}`) ||
+      autoLoaded.name !== testData.name ||
+      autoLoaded.age !== testData.age ||
+      autoLoaded.active !== testData.active
+    ) {
+      console.error('Auto format data does not match expected values');
+      process.exit(1);
+    }
+
+    // Load data with comments and trailing commas
+    const jsoncFile = join(tmpdir(), `zod-file-e2e-esm-${Date.now()}.jsonc`);
+    await fs.writeFile(
+      jsoncFile,
+      `{\n  // The user\n  "name": "${testData.name}",\n  "age": ${testData.age},\n  "active": ${testData.active},\n}\n`,
+    );
+    const jsoncStore = createZodJSONC({
+      schema: TestSchema,
+    });
+    const jsoncLoaded = await jsoncStore.load(jsoncFile);
+    await fs.unlink(jsoncFile);
+    if (
+      jsoncLoaded.name !== testData.name ||
+      jsoncLoaded.age !== testData.age ||
+      jsoncLoaded.active !== testData.active
+    ) {
+      console.error('JSONC data does not match expected values');
+      process.exit(1);
+    }
+
     console.log('ESM test passed');
   } catch (error) {
     console.error('ESM test failed:', error);
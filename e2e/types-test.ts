@@ -1,5 +1,7 @@
 import { z } from 'zod';
+import { createZodAuto } from '../dist/auto';
 import { createZodJSON } from '../dist/json';
+import { createZodJSONC } from '../dist/jsonc';
 import { ZodFile, ZodFileError } from '../dist/index';
 
 const TestSchema = z.object({
@@ -12,6 +14,14 @@ const store: ZodFile<z.infer<typeof TestSchema>> = createZodJSON({
   schema: TestSchema,
 });
 
+const autoStore: ZodFile<z.infer<typeof TestSchema>> = createZodAuto({
+  schema: TestSchema,
+});
+
+const jsoncStore: ZodFile<z.infer<typeof TestSchema>> = createZodJSONC({
+  schema: TestSchema,
+});
+
 // Test that ZodFileError class is available and can be used in type guards
 function handleError(error: unknown): void {
   if (error instanceof ZodFileError) {
@@ -5,8 +5,10 @@ import { dts } from 'rolldown-plugin-dts';
 const entryPoints = [
   'src/index.ts',
   'src/json.ts',
+  'src/jsonc.ts',
   'src/yaml.ts',
   'src/toml.ts',
+  'src/auto.ts',
 ];
 const external = /^[^/.]/;
 
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import { annotationsFor, commentLines, hasComments } from './annotate';
+
+describe('annotationsFor', () => {
+  it('should describe fields with their description, default and values', () => {
+    const schema = z.object({
+      theme: z
+        .enum(['light', 'dark'])
+        .default('light')
+        .describe('Color theme of the editor'),
+      fontSize: z.number().describe('Font size in points').optional(),
+      mode: z.literal(['insert', 'normal']),
+      plain: z.string(),
+    });
+
+    expect(annotationsFor(schema)).toEqual([
+      {
+        path: ['theme'],
+        lines: [
+          'Color theme of the editor',
+          'Default: "light"',
+          'Allowed values: "light", "dark"',
+        ],
+      },
+      { path: ['fontSize'], lines: ['Font size in points'] },
+      { path: ['mode'], lines: ['Allowed values: "insert", "normal"'] },
+    ]);
+  });
+
+  it('should walk nested objects', () => {
+    const schema = z.object({
+      server: z
+        .object({
+          port: z.number().default(8080).describe('Port to listen on'),
+        })
+        .describe('Server options\nRestart to apply'),
+    });
+
+    expect(annotationsFor(schema, ['data'])).toEqual([
+      {
+        path: ['data', 'server'],
+        lines: ['Server options', 'Restart to apply'],
+      },
+      {
+        path: ['data', 'server', 'port'],
+        lines: ['Port to listen on', 'Default: 8080'],
+      },
+    ]);
+  });
+
+  it('should describe the input side of codecs', () => {
+    const schema = z.object({
+      enabled: z
+        .codec(z.enum(['yes', 'no']), z.boolean(), {
+          decode: (value) => value === 'yes',
+          encode: (value) => (value ? 'yes' : 'no'),
+        })
+        .describe('Whether the feature is enabled'),
+    });
+
+    expect(annotationsFor(schema)).toEqual([
+      {
+        path: ['enabled'],
+        lines: [
+          'Whether the feature is enabled',
+          'Allowed values: "yes", "no"',
+        ],
+      },
+    ]);
+  });
+});
+
+describe('commentLines', () => {
+  it('should prefix and indent each line', () => {
+    expect(
+      commentLines({ path: ['a'], lines: ['First', '', 'Last'] }, '#', '  '),
+    ).toEqual(['  # First', '  #', '  # Last']);
+  });
+});
+
+describe('hasComments', () => {
+  it('should find comments right above a line', () => {
+    const lines = ['# Theme', 'theme: dark'];
+
+    expect(hasComments(lines, 1, ['# Theme'])).toBe(true);
+    expect(hasComments(lines, 1, ['# Other'])).toBe(false);
+    expect(hasComments(lines, 0, ['# Theme'])).toBe(false);
+  });
+});
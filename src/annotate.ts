@@ -0,0 +1,164 @@
+import { z } from 'zod';
+
+/**
+ * Comment lines describing a field of a schema, written above its key.
+ */
+export type Annotation = {
+  /**
+   * Keys leading to the field from the root of the file.
+   */
+  path: string[];
+
+  /**
+   * The comment lines, without the comment prefix.
+   */
+  lines: string[];
+};
+
+/**
+ * What a field schema says about its values, looking through optional,
+ * nullable, default and pipe wrappers.
+ */
+export type FieldInfo = {
+  description: string | undefined;
+  defaultValue: { value: unknown } | undefined;
+  /**
+   * Whether the field may be missing without a default value.
+   */
+  optional: boolean;
+  /**
+   * The innermost schema, on the input side of pipes and codecs.
+   */
+  inner: z.ZodType;
+};
+
+/**
+ * Looks through the wrappers of a field schema.
+ *
+ * @param schema - The field schema
+ * @returns The description, default value and innermost schema of the field
+ */
+export function inspectField(schema: z.ZodType): FieldInfo {
+  let description: string | undefined;
+  let defaultValue: { value: unknown } | undefined;
+  let optional = false;
+  let current: z.ZodType = schema;
+  for (;;) {
+    description ??= current.description;
+    if (current instanceof z.ZodDefault || current instanceof z.ZodPrefault) {
+      defaultValue ??= { value: current.def.defaultValue };
+      current = current.unwrap() as z.ZodType;
+    } else if (current instanceof z.ZodOptional) {
+      optional = true;
+      current = current.unwrap() as z.ZodType;
+    } else if (
+      current instanceof z.ZodNullable ||
+      current instanceof z.ZodNonOptional ||
+      current instanceof z.ZodReadonly ||
+      current instanceof z.ZodCatch
+    ) {
+      current = current.unwrap() as z.ZodType;
+    } else if (current instanceof z.ZodPipe) {
+      // Files hold the input side of pipes and codecs
+      description ??= (current.out as z.ZodType).description;
+      current = current.in as z.ZodType;
+    } else {
+      break;
+    }
+  }
+  return {
+    description,
+    defaultValue,
+    optional: optional && defaultValue === undefined,
+    inner: current,
+  };
+}
+
+/**
+ * Returns the values allowed by an enum or literal schema.
+ */
+export function allowedValues(schema: z.ZodType): unknown[] | undefined {
+  if (schema instanceof z.ZodEnum) {
+    return schema.options;
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return [...schema.values];
+  }
+  return undefined;
+}
+
+/**
+ * Collects the comments to write above the keys of an object schema, from
+ * each field's `.describe()` text, default value and enum values. Nested
+ * object schemas are walked recursively.
+ *
+ * @param schema - The object schema of the file
+ * @param path - Keys leading to the data in the file
+ * @returns The comments of the fields that have any
+ */
+export function annotationsFor(
+  schema: z.ZodObject,
+  path: string[] = [],
+): Annotation[] {
+  const annotations: Annotation[] = [];
+  for (const [key, field] of Object.entries(schema.shape)) {
+    const fieldPath = [...path, key];
+    const { description, defaultValue, inner } = inspectField(
+      field as z.ZodType,
+    );
+    const values = allowedValues(inner);
+    const lines = description?.split(/\r?\n/) ?? [];
+    if (defaultValue !== undefined) {
+      lines.push(`Default: ${JSON.stringify(defaultValue.value)}`);
+    }
+    if (values !== undefined) {
+      const formatted = values.map((value) => JSON.stringify(value));
+      lines.push(`Allowed values: ${formatted.join(', ')}`);
+    }
+    if (lines.length > 0) {
+      annotations.push({ path: fieldPath, lines });
+    }
+    if (inner instanceof z.ZodObject) {
+      annotations.push(...annotationsFor(inner, fieldPath));
+    }
+  }
+  return annotations;
+}
+
+/**
+ * Formats the lines of an annotation as comments.
+ *
+ * @param annotation - The annotation to format
+ * @param prefix - The line comment prefix of the format
+ * @param indent - The indentation of the commented key
+ * @returns The comment lines
+ */
+export function commentLines(
+  annotation: Annotation,
+  prefix: string,
+  indent = '',
+): string[] {
+  return annotation.lines.map((line) =>
+    line === '' ? `${indent}${prefix}` : `${indent}${prefix} ${line}`,
+  );
+}
+
+/**
+ * Whether the comment lines are already above a line, so that annotating a
+ * file twice does not repeat them.
+ *
+ * @param lines - The lines of the file
+ * @param at - Index of the commented line
+ * @param comments - The comment lines
+ */
+export function hasComments(
+  lines: string[],
+  at: number,
+  comments: string[],
+): boolean {
+  const start = at - comments.length;
+  return (
+    start >= 0 &&
+    comments.every((comment, i) => lines[start + i].trim() === comment.trim())
+  );
+}
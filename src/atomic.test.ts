@@ -0,0 +1,197 @@
+import fsSync from 'node:fs';
+import fs from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { writeFileAtomic, writeFileAtomicSync } from './atomic';
+
+vi.mock('node:fs');
+vi.mock('node:fs/promises');
+const mockFs = vi.mocked(fsSync);
+const mockFsPromises = vi.mocked(fs);
+const mockFileHandle = {
+  sync: vi.fn(),
+  close: vi.fn(),
+} as unknown as fs.FileHandle;
+
+const testFile = '/tmp/zod-file-test.json';
+const linkedFile = '/home/user/dotfiles/config.json';
+const fileStats = { mode: 0o100600, uid: 1000, gid: 1000 } as fsSync.Stats;
+
+describe('writeFileAtomic', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFsPromises.open.mockResolvedValue(mockFileHandle);
+    mockFsPromises.realpath.mockRejectedValue(new Error('ENOENT'));
+  });
+
+  it('should write to a temporary sibling and rename it over the target', async () => {
+    await writeFileAtomic(testFile, '<content-atomic-1>');
+
+    const tmpPath = mockFsPromises.writeFile.mock.calls[0]?.[0];
+    expect(tmpPath).toMatch(/^\/tmp\/\.zod-file-test\.json\..*\.tmp$/);
+    expect(mockFsPromises.writeFile).toHaveBeenCalledWith(
+      tmpPath,
+      '<content-atomic-1>',
+      'utf-8',
+    );
+    expect(mockFsPromises.rename).toHaveBeenCalledWith(tmpPath, testFile);
+  });
+
+  it('should use a different temporary file for each write', async () => {
+    await writeFileAtomic(testFile, '<content-atomic-2>');
+    await writeFileAtomic(testFile, '<content-atomic-3>');
+
+    expect(mockFsPromises.writeFile.mock.calls[0]?.[0]).not.toBe(
+      mockFsPromises.writeFile.mock.calls[1]?.[0],
+    );
+  });
+
+  it('should sync the parent directory after renaming', async () => {
+    await writeFileAtomic(testFile, '<content-atomic-4>');
+
+    expect(mockFsPromises.open).toHaveBeenLastCalledWith('/tmp', 'r');
+    expect(mockFileHandle.sync).toHaveBeenCalledTimes(2);
+    expect(mockFileHandle.close).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore failures to sync the parent directory', async () => {
+    mockFsPromises.open
+      .mockResolvedValueOnce(mockFileHandle)
+      .mockRejectedValueOnce(new Error('EISDIR'));
+
+    await expect(
+      writeFileAtomic(testFile, '<content-atomic-5>'),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should remove the temporary file when writing fails', async () => {
+    mockFsPromises.writeFile.mockRejectedValue(new Error('ENOSPC'));
+
+    await expect(
+      writeFileAtomic(testFile, '<content-atomic-6>'),
+    ).rejects.toThrowZodFileError('FileWrite');
+    expect(mockFsPromises.rm).toHaveBeenCalledWith(
+      mockFsPromises.writeFile.mock.calls[0]?.[0],
+      { force: true },
+    );
+    expect(mockFsPromises.rename).not.toHaveBeenCalled();
+  });
+
+  it('should replace the file a symlink points to', async () => {
+    mockFsPromises.realpath.mockResolvedValue(linkedFile);
+    mockFsPromises.stat.mockResolvedValue(fileStats);
+
+    await writeFileAtomic(testFile, '<content-atomic-7>');
+
+    const tmpPath = mockFsPromises.writeFile.mock.calls[0]?.[0];
+    expect(tmpPath).toMatch(
+      /^\/home\/user\/dotfiles\/\.config\.json\..*\.tmp$/,
+    );
+    expect(mockFsPromises.rename).toHaveBeenCalledWith(tmpPath, linkedFile);
+  });
+
+  it('should keep the mode and owner of the replaced file', async () => {
+    mockFsPromises.realpath.mockResolvedValue(testFile);
+    mockFsPromises.stat.mockResolvedValue(fileStats);
+
+    await writeFileAtomic(testFile, '<content-atomic-8>');
+
+    const tmpPath = mockFsPromises.writeFile.mock.calls[0]?.[0];
+    expect(mockFsPromises.chmod).toHaveBeenCalledWith(tmpPath, 0o600);
+    expect(mockFsPromises.chown).toHaveBeenCalledWith(tmpPath, 1000, 1000);
+    expect(mockFsPromises.chmod.mock.invocationCallOrder[0]).toBeLessThan(
+      mockFsPromises.rename.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('should link the temporary file to the target when exclusive', async () => {
+    await writeFileAtomic(testFile, '<content-atomic-10>', {
+      exclusive: true,
+    });
+
+    const tmpPath = mockFsPromises.writeFile.mock.calls[0]?.[0];
+    expect(mockFsPromises.link).toHaveBeenCalledWith(tmpPath, testFile);
+    expect(mockFsPromises.rm).toHaveBeenCalledWith(tmpPath, { force: true });
+    expect(mockFsPromises.rename).not.toHaveBeenCalled();
+  });
+
+  it('should throw FileExists when exclusive and the target exists', async () => {
+    mockFsPromises.link.mockRejectedValue(
+      Object.assign(new Error('File exists'), { code: 'EEXIST' }),
+    );
+
+    await expect(
+      writeFileAtomic(testFile, '<content-atomic-11>', { exclusive: true }),
+    ).rejects.toThrowZodFileError('FileExists');
+    expect(mockFsPromises.rm).toHaveBeenCalledWith(
+      mockFsPromises.writeFile.mock.calls[0]?.[0],
+      { force: true },
+    );
+  });
+
+  it('should ignore failures to change the owner', async () => {
+    mockFsPromises.realpath.mockResolvedValue(testFile);
+    mockFsPromises.stat.mockResolvedValue(fileStats);
+    mockFsPromises.chown.mockRejectedValue(new Error('EPERM'));
+
+    await writeFileAtomic(testFile, '<content-atomic-9>');
+
+    expect(mockFsPromises.rename).toHaveBeenCalled();
+  });
+});
+
+describe('writeFileAtomicSync', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFs.openSync.mockReturnValue(3);
+    mockFs.realpathSync.mockImplementation(() => {
+      throw new Error('ENOENT');
+    });
+  });
+
+  it('should write to a temporary sibling and rename it over the target', () => {
+    writeFileAtomicSync(testFile, '<content-atomic-sync-1>');
+
+    const tmpPath = mockFs.writeFileSync.mock.calls[0]?.[0];
+    expect(tmpPath).toMatch(/^\/tmp\/\.zod-file-test\.json\..*\.tmp$/);
+    expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+      tmpPath,
+      '<content-atomic-sync-1>',
+      'utf-8',
+    );
+    expect(mockFs.fsyncSync).toHaveBeenCalledTimes(2);
+    expect(mockFs.renameSync).toHaveBeenCalledWith(tmpPath, testFile);
+    expect(mockFs.openSync).toHaveBeenLastCalledWith('/tmp', 'r');
+  });
+
+  it('should remove the temporary file when writing fails', () => {
+    mockFs.writeFileSync.mockImplementation(() => {
+      throw new Error('ENOSPC');
+    });
+
+    expect(() =>
+      writeFileAtomicSync(testFile, '<content-atomic-sync-2>'),
+    ).toThrowZodFileError('FileWrite');
+    expect(mockFs.rmSync).toHaveBeenCalledWith(
+      mockFs.writeFileSync.mock.calls[0]?.[0],
+      { force: true },
+    );
+    expect(mockFs.renameSync).not.toHaveBeenCalled();
+  });
+
+  it('should replace the file a symlink points to, keeping its mode', () => {
+    mockFs.realpathSync.mockReturnValue(linkedFile);
+    mockFs.statSync.mockReturnValue(fileStats);
+    mockFs.chownSync.mockImplementation(() => {
+      throw new Error('EPERM');
+    });
+
+    writeFileAtomicSync(testFile, '<content-atomic-sync-3>');
+
+    const tmpPath = mockFs.writeFileSync.mock.calls[0]?.[0];
+    expect(mockFs.chmodSync).toHaveBeenCalledWith(tmpPath, 0o600);
+    expect(mockFs.chownSync).toHaveBeenCalledWith(tmpPath, 1000, 1000);
+    expect(mockFs.renameSync).toHaveBeenCalledWith(tmpPath, linkedFile);
+  });
+});
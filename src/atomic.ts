@@ -0,0 +1,259 @@
+import { randomBytes } from 'node:crypto';
+import fsSync from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { ZodFileError } from './errors';
+
+/**
+ * Builds the path of a temporary sibling file for an atomic write.
+ *
+ * The temporary file lives in the same directory as the target so that the
+ * final rename never crosses a filesystem boundary.
+ */
+function temporaryPath(filePath: string): string {
+  const suffix = randomBytes(6).toString('hex');
+  return path.join(
+    path.dirname(filePath),
+    `.${path.basename(filePath)}.${process.pid}.${suffix}.tmp`,
+  );
+}
+
+/**
+ * Resolves the file that a write replaces, following symlinks so that they
+ * keep pointing to the written file.
+ *
+ * @returns The path of the file, and its stats if it exists
+ */
+async function resolveTarget(
+  filePath: string,
+): Promise<{ target: string; stats?: fsSync.Stats }> {
+  try {
+    const target = await fs.realpath(filePath);
+    return { target, stats: await fs.stat(target) };
+  } catch {
+    // The file does not exist yet
+    return { target: filePath };
+  }
+}
+
+/**
+ * Resolves the file that a write replaces synchronously, like
+ * {@link resolveTarget}.
+ */
+function resolveTargetSync(filePath: string): {
+  target: string;
+  stats?: fsSync.Stats;
+} {
+  try {
+    const target = fsSync.realpathSync(filePath);
+    return { target, stats: fsSync.statSync(target) };
+  } catch {
+    // The file does not exist yet
+    return { target: filePath };
+  }
+}
+
+/**
+ * Gives a temporary file the mode of the file it replaces, and its owner
+ * where the process is allowed to.
+ */
+async function copyPermissions(
+  tmpPath: string,
+  stats: fsSync.Stats,
+): Promise<void> {
+  await fs.chmod(tmpPath, stats.mode & 0o7777);
+  try {
+    await fs.chown(tmpPath, stats.uid, stats.gid);
+  } catch {
+    // Only privileged processes can give files to other users
+  }
+}
+
+/**
+ * Flushes a directory entry to disk so that a completed rename survives
+ * a crash. Not every platform allows opening directories (e.g. Windows),
+ * so failures are ignored.
+ */
+async function syncDirectory(dirPath: string): Promise<void> {
+  try {
+    const handle = await fs.open(dirPath, 'r');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * Maps a failure to link a temporary file to the target of an exclusive
+ * write.
+ */
+function linkError(filePath: string, error: unknown): ZodFileError {
+  if (error instanceof Error && 'code' in error && error.code === 'EEXIST') {
+    return new ZodFileError(
+      'FileExists',
+      `File already exists: ${filePath}`,
+      error,
+    );
+  }
+  return new ZodFileError(
+    'FileWrite',
+    `Failed to create file: ${filePath} (temporary file could not be linked)`,
+    error instanceof Error ? error : new Error(String(error)),
+  );
+}
+
+/**
+ * Removes a leftover temporary file, ignoring any error.
+ */
+async function removeQuietly(filePath: string): Promise<void> {
+  try {
+    await fs.rm(filePath, { force: true });
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * Writes a file atomically.
+ *
+ * The content is written to a temporary sibling file, flushed to disk, then
+ * renamed over the target. Readers observe either the previous content or
+ * the new content, never a truncated file.
+ *
+ * When the target is a symlink, the file it points to is replaced instead,
+ * and the temporary file gets the mode and owner of the file it replaces.
+ *
+ * With `exclusive`, the temporary file is hard-linked to the target rather
+ * than renamed over it, which fails when the target exists.
+ *
+ * @param filePath - Path to the target file
+ * @param content - The content to write
+ * @param options - Whether to fail instead of replacing an existing file
+ * @throws {ZodFileError} With code `FileWrite` when writing or renaming fails
+ * @throws {ZodFileError} With code `FileExists` when `exclusive` is set and the file exists
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string,
+  options: { exclusive?: boolean } = {},
+): Promise<void> {
+  const { target, stats } = await resolveTarget(filePath);
+  const tmpPath = temporaryPath(target);
+
+  try {
+    await fs.writeFile(tmpPath, content, 'utf-8');
+    if (stats !== undefined) {
+      await copyPermissions(tmpPath, stats);
+    }
+    const handle = await fs.open(tmpPath, 'r+');
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+  } catch (error) {
+    await removeQuietly(tmpPath);
+    throw new ZodFileError(
+      'FileWrite',
+      `Failed to write file: ${filePath}`,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+
+  if (options.exclusive === true) {
+    try {
+      await fs.link(tmpPath, target);
+    } catch (error) {
+      throw linkError(filePath, error);
+    } finally {
+      await removeQuietly(tmpPath);
+    }
+    await syncDirectory(path.dirname(target));
+    return;
+  }
+
+  try {
+    await fs.rename(tmpPath, target);
+  } catch (error) {
+    await removeQuietly(tmpPath);
+    throw new ZodFileError(
+      'FileWrite',
+      `Failed to replace file: ${filePath} (temporary file could not be renamed)`,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+
+  await syncDirectory(path.dirname(target));
+}
+
+/**
+ * Writes a file atomically and synchronously, like {@link writeFileAtomic}.
+ *
+ * @param filePath - Path to the target file
+ * @param content - The content to write
+ * @throws {ZodFileError} With code `FileWrite` when writing or renaming fails
+ */
+export function writeFileAtomicSync(filePath: string, content: string): void {
+  const { target, stats } = resolveTargetSync(filePath);
+  const tmpPath = temporaryPath(target);
+  const removeTemporary = () => {
+    try {
+      fsSync.rmSync(tmpPath, { force: true });
+    } catch {
+      // Best effort
+    }
+  };
+
+  try {
+    fsSync.writeFileSync(tmpPath, content, 'utf-8');
+    if (stats !== undefined) {
+      fsSync.chmodSync(tmpPath, stats.mode & 0o7777);
+      try {
+        fsSync.chownSync(tmpPath, stats.uid, stats.gid);
+      } catch {
+        // Only privileged processes can give files to other users
+      }
+    }
+    const fd = fsSync.openSync(tmpPath, 'r+');
+    try {
+      fsSync.fsyncSync(fd);
+    } finally {
+      fsSync.closeSync(fd);
+    }
+  } catch (error) {
+    removeTemporary();
+    throw new ZodFileError(
+      'FileWrite',
+      `Failed to write file: ${filePath}`,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+
+  try {
+    fsSync.renameSync(tmpPath, target);
+  } catch (error) {
+    removeTemporary();
+    throw new ZodFileError(
+      'FileWrite',
+      `Failed to replace file: ${filePath} (temporary file could not be renamed)`,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+
+  // Flush the directory entry, where the platform allows it
+  try {
+    const fd = fsSync.openSync(path.dirname(target), 'r');
+    try {
+      fsSync.fsyncSync(fd);
+    } finally {
+      fsSync.closeSync(fd);
+    }
+  } catch {
+    // Best effort
+  }
+}
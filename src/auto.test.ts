@@ -0,0 +1,202 @@
+import fs from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { createZodAuto } from './auto';
+import { type Serializer } from './persistence';
+
+vi.mock('node:fs/promises');
+const mockFsPromises = vi.mocked(fs);
+const mockFileHandle = {
+  sync: vi.fn(),
+  close: vi.fn(),
+} as unknown as fs.FileHandle;
+
+const notFoundError = Object.assign(new Error('File not found'), {
+  code: 'ENOENT',
+});
+
+const schema = z.object({ theme: z.string(), fontSize: z.number() });
+const data = { theme: 'dark', fontSize: 14 };
+
+function writtenContent(): string {
+  return mockFsPromises.writeFile.mock.calls[0]?.[1] as string;
+}
+
+describe('createZodAuto', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFsPromises.open.mockResolvedValue(mockFileHandle);
+    mockFsPromises.realpath.mockRejectedValue(new Error('ENOENT'));
+  });
+
+  describe('format from extension', () => {
+    it.each([
+      ['/tmp/settings.json', '{\n  "theme": "dark",\n  "fontSize": 14\n}'],
+      ['/tmp/settings.yaml', 'theme: dark\nfontSize: 14'],
+      ['/tmp/settings.YML', 'theme: dark\nfontSize: 14'],
+      ['/tmp/settings.toml', 'theme = "dark"\nfontSize = 14\n'],
+    ])('should save %s in its format', async (filePath, expected) => {
+      const store = createZodAuto({ schema });
+
+      await store.save(data, filePath);
+
+      expect(writtenContent()).toBe(expected);
+    });
+
+    it.each([
+      ['/tmp/settings.json', '{"theme": "dark", "fontSize": 14}'],
+      ['/tmp/settings.yml', 'theme: dark\nfontSize: 14\n'],
+      ['/tmp/settings.toml', 'theme = "dark"\nfontSize = 14\n'],
+    ])('should load %s in its format', async (filePath, content) => {
+      const store = createZodAuto({ schema });
+
+      mockFsPromises.readFile.mockResolvedValue(content);
+
+      await expect(store.load(filePath)).resolves.toEqual(data);
+    });
+
+    it('should not parse a file with the format of another extension', async () => {
+      const store = createZodAuto({ schema });
+
+      mockFsPromises.readFile.mockResolvedValue('theme: dark\nfontSize: 14\n');
+
+      await expect(
+        store.load('/tmp/settings.json'),
+      ).rejects.toThrowZodFileError('InvalidFormat');
+    });
+  });
+
+  describe('format from content', () => {
+    it.each([
+      ['JSON', '{"theme": "dark", "fontSize": 14}'],
+      ['YAML', 'theme: dark\nfontSize: 14\n'],
+      ['TOML', 'theme = "dark"\nfontSize = 14\n'],
+    ])('should detect %s content', async (_format, content) => {
+      const store = createZodAuto({ schema });
+
+      mockFsPromises.readFile.mockResolvedValue(content);
+
+      await expect(store.load('/tmp/settingsrc')).resolves.toEqual(data);
+    });
+
+    it('should save in the format of the existing content', async () => {
+      const store = createZodAuto({ schema });
+
+      mockFsPromises.readFile.mockResolvedValue('theme = "light"\n');
+
+      await store.save(data, '/tmp/settingsrc');
+
+      expect(writtenContent()).toBe('theme = "dark"\nfontSize = 14\n');
+    });
+
+    it('should fail to save a new file with an unknown extension', async () => {
+      const store = createZodAuto({ schema });
+
+      mockFsPromises.readFile.mockRejectedValue(notFoundError);
+
+      await expect(store.save(data, '/tmp/settingsrc')).rejects.toThrow(
+        'Supported extensions are .json, .jsonc, .json5, .toml, .yaml, .yml',
+      );
+      await expect(
+        store.save(data, '/tmp/settingsrc'),
+      ).rejects.toThrowZodFileError('UnknownFormat');
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should fail to load content in an unknown format', async () => {
+      const store = createZodAuto({ schema });
+
+      mockFsPromises.readFile.mockResolvedValue('just some text');
+
+      await expect(store.load('/tmp/settingsrc')).rejects.toThrowZodFileError(
+        'InvalidFormat',
+      );
+    });
+
+    it('should return the default when a file with an unknown extension is missing', async () => {
+      const store = createZodAuto({ schema, default: data });
+
+      mockFsPromises.readFile.mockRejectedValue(notFoundError);
+
+      await expect(store.load('/tmp/settingsrc')).resolves.toEqual(data);
+    });
+  });
+
+  describe('custom formats', () => {
+    const iniSerializer: Serializer = {
+      formatName: 'INI',
+      parse: (content) =>
+        Object.fromEntries(
+          content
+            .split('\n')
+            .filter((line) => line.includes('='))
+            .map((line) => {
+              const [key, value] = line.split('=');
+              return [key, Number.isNaN(Number(value)) ? value : Number(value)];
+            }),
+        ),
+      stringify: (value) =>
+        Object.entries(value as Record<string, unknown>)
+          .map(([key, v]) => `${key}=${String(v)}`)
+          .join('\n'),
+    };
+
+    it('should use registered formats for their extensions', async () => {
+      const store = createZodAuto({
+        schema,
+        formats: [{ extensions: ['.ini'], serializer: iniSerializer }],
+      });
+
+      await store.save(data, '/tmp/settings.ini');
+
+      expect(writtenContent()).toBe('theme=dark\nfontSize=14');
+    });
+
+    it('should detect registered formats from content', async () => {
+      const store = createZodAuto({
+        schema,
+        formats: [
+          {
+            extensions: ['.ini'],
+            serializer: iniSerializer,
+            detect: (content) => content.startsWith('[settings]'),
+          },
+        ],
+      });
+
+      mockFsPromises.readFile.mockResolvedValue(
+        '[settings]\ntheme=dark\nfontSize=14',
+      );
+
+      await expect(store.load('/tmp/settingsrc')).resolves.toEqual(data);
+    });
+  });
+
+  describe('includes', () => {
+    it('should parse included files in the format of their extension', async () => {
+      const store = createZodAuto({ schema, includes: true });
+
+      mockFsPromises.readFile.mockImplementation((path) =>
+        Promise.resolve(
+          path === '/tmp/settings.json'
+            ? '{"$include": "./base.toml", "theme": "dark"}'
+            : 'theme = "light"\nfontSize = 14\n',
+        ),
+      );
+
+      await expect(store.load('/tmp/settings.json')).resolves.toEqual(data);
+    });
+  });
+
+  it('should validate options on creation', () => {
+    expect(() =>
+      createZodAuto({
+        schema,
+        version: 3 as const,
+        migrations: [{ version: 2, schema: z.object({}), migrate: () => ({}) }],
+      }),
+    ).toThrow(/sequential/);
+  });
+});
@@ -0,0 +1,298 @@
+import fsSync from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { ZodFileError } from './errors';
+import { jsonSerializer } from './json';
+import { jsoncSerializer } from './jsonc';
+import {
+  type Serializer,
+  type ZodFile,
+  type ZodFileOptions,
+  createZodFile,
+} from './persistence';
+import { tomlSerializer } from './toml';
+import { yamlSerializer } from './yaml';
+
+/**
+ * A file format recognized by {@link createZodAuto}.
+ *
+ * @example
+ * ```typescript
+ * const iniFormat: FileFormat = {
+ *   extensions: ['.ini', '.cfg'],
+ *   serializer: iniSerializer,
+ *   detect: (content) => /^\s*\[[^\]]+\]/m.test(content),
+ * };
+ * ```
+ */
+export type FileFormat = {
+  /**
+   * Extensions of files in this format, including the leading dot.
+   */
+  extensions: string[];
+
+  /**
+   * The serializer for this format.
+   */
+  serializer: Serializer;
+
+  /**
+   * Whether content is in this format, used for files whose extension is not
+   * recognized.
+   *
+   * By default, content is in this format if the serializer parses it into
+   * an object.
+   */
+  detect?: (content: string) => boolean;
+};
+
+/**
+ * Configuration options for {@link createZodAuto}.
+ *
+ * @typeParam V - The current schema version number (literal type)
+ * @typeParam T - The current schema's data type
+ */
+export type ZodAutoOptions<
+  V extends number,
+  T extends Record<string, unknown>,
+> = ZodFileOptions<V, T> & {
+  /**
+   * Additional file formats, recognized before the built-in JSON, YAML and
+   * TOML formats.
+   */
+  formats?: FileFormat[];
+};
+
+const builtInFormats: FileFormat[] = [
+  {
+    extensions: ['.json'],
+    serializer: jsonSerializer,
+    detect: (content) =>
+      /^\s*\{/.test(content) && parsesToObject(jsonSerializer, content),
+  },
+  { extensions: ['.jsonc', '.json5'], serializer: jsoncSerializer },
+  { extensions: ['.toml'], serializer: tomlSerializer },
+  { extensions: ['.yaml', '.yml'], serializer: yamlSerializer },
+];
+
+function parsesToObject(serializer: Serializer, content: string): boolean {
+  try {
+    const parsed = serializer.parse(content);
+    return (
+      typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates a ZodFile persistence instance that picks the file format of each
+ * file from its extension.
+ *
+ * Files with the `.json`, `.jsonc`, `.json5`, `.yaml`, `.yml` and `.toml`
+ * extensions are recognized, as well as the extensions of custom `formats`. When the
+ * extension is not recognized, the format is detected from the content of
+ * the file. Files included with the `includes` option are parsed in the
+ * format of their own extension. When it cannot be detected either, loading fails with an
+ * `InvalidFormat` error and saving fails with an `UnknownFormat` error, both
+ * naming the supported extensions.
+ *
+ * Requires both the `js-yaml` and `smol-toml` packages to be installed as
+ * peer dependencies.
+ *
+ * @typeParam V - The current schema version number
+ * @typeParam T - The data type produced by the schema
+ * @param options - Configuration options for the persistence instance, and custom formats
+ * @returns A {@link ZodFile} instance with typed `load` and `save` methods
+ * @throws {Error} If the migration chain is invalid (non-sequential or incomplete)
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ * import { createZodAuto } from 'zod-file/auto';
+ *
+ * const SettingsSchema = z.object({ theme: z.string() });
+ * const settings = createZodAuto({
+ *   schema: SettingsSchema,
+ *   default: { theme: 'light' },
+ * });
+ *
+ * // The format depends on the extension
+ * const data = await settings.load('./settings.yaml');
+ * await settings.save(data, './settings.json');
+ * ```
+ */
+export function createZodAuto<
+  V extends number,
+  T extends Record<string, unknown>,
+>(options: ZodAutoOptions<V, T>): ZodFile<T> {
+  const { formats: customFormats = [], includes = false, ...rest } = options;
+  const formats = [...customFormats, ...builtInFormats];
+  const supportedExtensions = formats
+    .flatMap((format) => format.extensions)
+    .join(', ');
+
+  // Included files are parsed in the format of their own extension
+  const includeFormats: Record<string, Serializer> = {};
+  for (const format of [...formats].reverse()) {
+    for (const extension of format.extensions) {
+      includeFormats[extension.toLowerCase()] = format.serializer;
+    }
+  }
+  const fileOptions: ZodFileOptions<V, T> = {
+    ...rest,
+    includes:
+      includes === false
+        ? false
+        : {
+            ...(includes === true ? {} : includes),
+            formats: {
+              ...includeFormats,
+              ...(includes === true ? {} : includes.formats),
+            },
+          },
+  };
+
+  const instances = new Map<Serializer, ZodFile<T>>();
+
+  function instanceFor(serializer: Serializer): ZodFile<T> {
+    let instance = instances.get(serializer);
+    if (instance === undefined) {
+      instance = createZodFile(fileOptions, serializer);
+      instances.set(serializer, instance);
+    }
+    return instance;
+  }
+
+  // Validate the options now, instead of on the first use of a format
+  instanceFor(yamlSerializer);
+
+  function formatFromExtension(filePath: string): FileFormat | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    return formats.find((format) =>
+      format.extensions.some((e) => e.toLowerCase() === extension),
+    );
+  }
+
+  function formatFromContent(content: string): FileFormat | undefined {
+    return formats.find((format) =>
+      format.detect !== undefined
+        ? format.detect(content)
+        : parsesToObject(format.serializer, content),
+    );
+  }
+
+  /**
+   * Returns an instance that detects the format from the content of a file
+   * whose extension is not recognized.
+   */
+  function detectingInstance(filePath: string): ZodFile<T> {
+    const message = `Cannot determine the format of file: ${filePath}. Supported extensions are ${supportedExtensions}`;
+    return createZodFile(fileOptions, {
+      formatName: 'content',
+      parse(content) {
+        const format = formatFromContent(content);
+        if (format === undefined) {
+          throw new Error(message);
+        }
+        return format.serializer.parse(content);
+      },
+      stringify() {
+        throw new ZodFileError('UnknownFormat', message);
+      },
+    });
+  }
+
+  /**
+   * Returns the instance for the format of a file, from its extension or
+   * else from its current content.
+   */
+  async function resolve(filePath: string): Promise<ZodFile<T>> {
+    const format = formatFromExtension(filePath);
+    if (format !== undefined) {
+      return instanceFor(format.serializer);
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return detectingInstance(filePath);
+    }
+    const detected = formatFromContent(content);
+    return detected !== undefined
+      ? instanceFor(detected.serializer)
+      : detectingInstance(filePath);
+  }
+
+  /**
+   * Returns the instance for the format of a file synchronously.
+   */
+  function resolveSync(filePath: string): ZodFile<T> {
+    const format = formatFromExtension(filePath);
+    if (format !== undefined) {
+      return instanceFor(format.serializer);
+    }
+
+    let content: string;
+    try {
+      content = fsSync.readFileSync(filePath, 'utf-8');
+    } catch {
+      return detectingInstance(filePath);
+    }
+    const detected = formatFromContent(content);
+    return detected !== undefined
+      ? instanceFor(detected.serializer)
+      : detectingInstance(filePath);
+  }
+
+  return {
+    async load(filePath, loadOptions) {
+      return (await resolve(filePath)).load(filePath, loadOptions);
+    },
+    async loadWithInfo(filePath, loadOptions) {
+      return (await resolve(filePath)).loadWithInfo(filePath, loadOptions);
+    },
+    async planMigration(filePath) {
+      return (await resolve(filePath)).planMigration(filePath);
+    },
+    async dryRunMigration(filePath) {
+      return (await resolve(filePath)).dryRunMigration(filePath);
+    },
+    async save(data, filePath, saveOptions) {
+      return (await resolve(filePath)).save(data, filePath, saveOptions);
+    },
+    loadSync(filePath, loadOptions) {
+      return resolveSync(filePath).loadSync(filePath, loadOptions);
+    },
+    saveSync(data, filePath, saveOptions) {
+      resolveSync(filePath).saveSync(data, filePath, saveOptions);
+    },
+    async downgrade(filePath, version, saveOptions) {
+      return (await resolve(filePath)).downgrade(
+        filePath,
+        version,
+        saveOptions,
+      );
+    },
+    async init(filePath, initOptions) {
+      return (await resolve(filePath)).init(filePath, initOptions);
+    },
+    async update(filePath, updater, updateOptions) {
+      return (await resolve(filePath)).update(filePath, updater, updateOptions);
+    },
+    watch(filePath, listener, watchOptions) {
+      const format = formatFromExtension(filePath);
+      const instance =
+        format !== undefined
+          ? instanceFor(format.serializer)
+          : detectingInstance(filePath);
+      return instance.watch(filePath, listener, watchOptions);
+    },
+    async open(filePath, openOptions) {
+      return (await resolve(filePath)).open(filePath, openOptions);
+    },
+  };
+}
@@ -0,0 +1,130 @@
+import fsSync from 'node:fs';
+import fs from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  backupPath,
+  quarantineFile,
+  rotateBackups,
+  rotateBackupsSync,
+} from './backup';
+
+vi.mock('node:fs');
+vi.mock('node:fs/promises');
+const mockFs = vi.mocked(fsSync);
+const mockFsPromises = vi.mocked(fs);
+
+const testFile = '/tmp/zod-file-test.json';
+
+const notFoundError = Object.assign(new Error('File not found'), {
+  code: 'ENOENT',
+});
+
+describe('backupPath', () => {
+  it('should append the backup number to the file path', () => {
+    expect(backupPath(testFile, 2)).toBe('/tmp/zod-file-test.json.bak.2');
+  });
+});
+
+describe('rotateBackups', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should shift backups from oldest to newest and copy the file', async () => {
+    await rotateBackups(testFile, 3);
+
+    expect(mockFsPromises.rename.mock.calls).toEqual([
+      [`${testFile}.bak.2`, `${testFile}.bak.3`],
+      [`${testFile}.bak.1`, `${testFile}.bak.2`],
+    ]);
+    expect(mockFsPromises.copyFile).toHaveBeenCalledWith(
+      testFile,
+      `${testFile}.bak.1`,
+    );
+  });
+
+  it('should only copy the file when keeping a single backup', async () => {
+    await rotateBackups(testFile, 1);
+
+    expect(mockFsPromises.rename).not.toHaveBeenCalled();
+    expect(mockFsPromises.copyFile).toHaveBeenCalledWith(
+      testFile,
+      `${testFile}.bak.1`,
+    );
+  });
+
+  it('should skip missing backups and a missing file', async () => {
+    mockFsPromises.rename.mockRejectedValue(notFoundError);
+    mockFsPromises.copyFile.mockRejectedValue(notFoundError);
+
+    await expect(rotateBackups(testFile, 3)).resolves.toBeUndefined();
+  });
+
+  it('should throw FileWrite when a backup cannot be written', async () => {
+    mockFsPromises.copyFile.mockRejectedValue(
+      Object.assign(new Error('No space left'), { code: 'ENOSPC' }),
+    );
+
+    await expect(rotateBackups(testFile, 2)).rejects.toThrowZodFileError(
+      'FileWrite',
+    );
+  });
+});
+
+describe('rotateBackupsSync', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should shift backups from oldest to newest and copy the file', () => {
+    rotateBackupsSync(testFile, 3);
+
+    expect(mockFs.renameSync.mock.calls).toEqual([
+      [`${testFile}.bak.2`, `${testFile}.bak.3`],
+      [`${testFile}.bak.1`, `${testFile}.bak.2`],
+    ]);
+    expect(mockFs.copyFileSync).toHaveBeenCalledWith(
+      testFile,
+      `${testFile}.bak.1`,
+    );
+  });
+
+  it('should skip missing backups and throw FileWrite on other errors', () => {
+    mockFs.renameSync.mockImplementation(() => {
+      throw notFoundError;
+    });
+    mockFs.copyFileSync.mockImplementation(() => {
+      throw Object.assign(new Error('No space left'), { code: 'ENOSPC' });
+    });
+
+    expect(() => rotateBackupsSync(testFile, 3)).toThrowZodFileError(
+      'FileWrite',
+    );
+  });
+});
+
+describe('quarantineFile', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should rename the file with a timestamp suffix', async () => {
+    const quarantinePath = await quarantineFile(testFile);
+
+    expect(quarantinePath).toMatch(
+      /^\/tmp\/zod-file-test\.json\.corrupt-\d{4}-\d{2}-\d{2}T[\d-]+Z$/,
+    );
+    expect(mockFsPromises.rename).toHaveBeenCalledWith(
+      testFile,
+      quarantinePath,
+    );
+  });
+
+  it('should return undefined when the file cannot be renamed', async () => {
+    mockFsPromises.rename.mockRejectedValue(new Error('Permission denied'));
+
+    await expect(quarantineFile(testFile)).resolves.toBeUndefined();
+  });
+});
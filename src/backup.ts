@@ -0,0 +1,119 @@
+import fsSync from 'node:fs';
+import fs from 'node:fs/promises';
+
+import { ZodFileError } from './errors';
+
+/**
+ * Returns the path of a numbered backup of a file.
+ *
+ * @param filePath - Path to the backed up file
+ * @param index - Backup number, 1 being the most recent
+ * @returns The backup path, e.g. `settings.json.bak.1`
+ */
+export function backupPath(filePath: string, index: number): string {
+  return `${filePath}.bak.${index}`;
+}
+
+function isNotFound(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
+
+/**
+ * Shifts existing backups of a file and copies its current content to the
+ * most recent backup.
+ *
+ * Backups are shifted from `<path>.bak.<N-1>` to `<path>.bak.<N>`, down to
+ * `<path>.bak.1` to `<path>.bak.2`, overwriting the oldest backup. Missing
+ * files are skipped, so this is a no-op before the first save.
+ *
+ * @param filePath - Path to the file about to be overwritten
+ * @param count - Number of backups to keep
+ * @throws {ZodFileError} With code `FileWrite` when a backup cannot be written
+ */
+export async function rotateBackups(
+  filePath: string,
+  count: number,
+): Promise<void> {
+  try {
+    for (let i = count - 1; i >= 1; i--) {
+      try {
+        await fs.rename(backupPath(filePath, i), backupPath(filePath, i + 1));
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw error;
+        }
+      }
+    }
+    try {
+      await fs.copyFile(filePath, backupPath(filePath, 1));
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  } catch (error) {
+    throw new ZodFileError(
+      'FileWrite',
+      `Failed to back up file: ${filePath}`,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * Shifts existing backups of a file and copies its current content to the
+ * most recent backup, synchronously, like {@link rotateBackups}.
+ *
+ * @param filePath - Path to the file about to be overwritten
+ * @param count - Number of backups to keep
+ * @throws {ZodFileError} With code `FileWrite` when a backup cannot be written
+ */
+export function rotateBackupsSync(filePath: string, count: number): void {
+  try {
+    for (let i = count - 1; i >= 1; i--) {
+      try {
+        fsSync.renameSync(backupPath(filePath, i), backupPath(filePath, i + 1));
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw error;
+        }
+      }
+    }
+    try {
+      fsSync.copyFileSync(filePath, backupPath(filePath, 1));
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  } catch (error) {
+    throw new ZodFileError(
+      'FileWrite',
+      `Failed to back up file: ${filePath}`,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
+/**
+ * Renames an invalid file to `<path>.corrupt-<timestamp>` so that it is kept
+ * for inspection instead of being overwritten.
+ *
+ * Quarantine is best effort: if the file cannot be renamed, it is left in
+ * place.
+ *
+ * @param filePath - Path to the invalid file
+ * @returns The path the file was moved to, or undefined if it could not be moved
+ */
+export async function quarantineFile(
+  filePath: string,
+): Promise<string | undefined> {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const quarantinePath = `${filePath}.corrupt-${timestamp}`;
+  try {
+    await fs.rename(filePath, quarantinePath);
+    return quarantinePath;
+  } catch {
+    return undefined;
+  }
+}
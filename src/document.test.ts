@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createDocument } from './document';
+import { ZodFileError } from './errors';
+
+const testFile = '/tmp/zod-file-test.json';
+
+type Settings = { theme: string; fontSize: number };
+
+describe('createDocument', () => {
+  const load = vi.fn<(filePath: string) => Promise<Settings>>();
+  const save = vi.fn<(data: Settings, filePath: string) => Promise<void>>();
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should hold the initial value', () => {
+    const doc = createDocument(
+      testFile,
+      { theme: 'light', fontSize: 14 },
+      load,
+      save,
+      {},
+    );
+
+    expect(doc.path).toBe(testFile);
+    expect(doc.get()).toEqual({ theme: 'light', fontSize: 14 });
+    expect(doc.dirty).toBe(false);
+  });
+
+  it('should only save on flush without autosave', async () => {
+    const doc = createDocument(
+      testFile,
+      { theme: 'light', fontSize: 14 },
+      load,
+      save,
+      {},
+    );
+
+    doc.set({ theme: 'dark', fontSize: 14 });
+    await vi.runAllTimersAsync();
+    expect(save).not.toHaveBeenCalled();
+    expect(doc.dirty).toBe(true);
+
+    await doc.flush();
+    expect(save).toHaveBeenCalledWith(
+      { theme: 'dark', fontSize: 14 },
+      testFile,
+    );
+    expect(doc.dirty).toBe(false);
+  });
+
+  it('should not save on flush when there are no changes', async () => {
+    const doc = createDocument(
+      testFile,
+      { theme: 'light', fontSize: 14 },
+      load,
+      save,
+      {},
+    );
+
+    await doc.flush();
+    expect(save).not.toHaveBeenCalled();
+  });
+
+  it('should support in-place and returning mutations', () => {
+    const doc = createDocument(
+      testFile,
+      { theme: 'light', fontSize: 14 },
+      load,
+      save,
+      {},
+    );
+
+    doc.mutate((settings) => {
+      settings.fontSize = 16;
+    });
+    expect(doc.get()).toEqual({ theme: 'light', fontSize: 16 });
+
+    doc.mutate((settings) => ({ ...settings, theme: 'dark' }));
+    expect(doc.get()).toEqual({ theme: 'dark', fontSize: 16 });
+    expect(doc.dirty).toBe(true);
+  });
+
+  it('should coalesce bursts of changes into a single autosave', async () => {
+    save.mockResolvedValue();
+    const doc = createDocument(
+      testFile,
+      { theme: 'light', fontSize: 14 },
+      load,
+      save,
+      { autosave: 100 },
+    );
+
+    doc.mutate((settings) => ({ ...settings, fontSize: 15 }));
+    await vi.advanceTimersByTimeAsync(50);
+    doc.mutate((settings) => ({ ...settings, fontSize: 16 }));
+    await vi.advanceTimersByTimeAsync(50);
+    doc.mutate((settings) => ({ ...settings, fontSize: 17 }));
+    expect(save).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(save).toHaveBeenCalledWith(
+      { theme: 'light', fontSize: 17 },
+      testFile,
+    );
+    expect(doc.dirty).toBe(false);
+  });
+
+  it('should save again when changed during a save', async () => {
+    let finishSave = () => {};
+    save.mockImplementationOnce(
+      () => new Promise((resolve) => (finishSave = resolve)),
+    );
+    save.mockResolvedValue();
+    const doc = createDocument(
+      testFile,
+      { theme: 'light', fontSize: 14 },
+      load,
+      save,
+      {},
+    );
+
+    doc.set({ theme: 'dark', fontSize: 14 });
+    const firstFlush = doc.flush();
+    doc.set({ theme: 'dark', fontSize: 20 });
+    const secondFlush = doc.flush();
+    finishSave();
+    await Promise.all([firstFlush, secondFlush]);
+
+    expect(save).toHaveBeenCalledTimes(2);
+    expect(save).toHaveBeenLastCalledWith(
+      { theme: 'dark', fontSize: 20 },
+      testFile,
+    );
+  });
+
+  it('should report autosave errors and stay dirty', async () => {
+    const error = new ZodFileError('FileWrite', 'Failed to write file');
+    save.mockRejectedValue(error);
+    const onError = vi.fn();
+    const doc = createDocument(
+      testFile,
+      { theme: 'light', fontSize: 14 },
+      load,
+      save,
+      { autosave: 10, onError },
+    );
+
+    doc.set({ theme: 'dark', fontSize: 14 });
+    await vi.runAllTimersAsync();
+
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(doc.dirty).toBe(true);
+  });
+
+  it('should discard unsaved changes on reload', async () => {
+    load.mockResolvedValue({ theme: 'light', fontSize: 12 });
+    const doc = createDocument(
+      testFile,
+      { theme: 'light', fontSize: 14 },
+      load,
+      save,
+      { autosave: 100 },
+    );
+
+    doc.set({ theme: 'dark', fontSize: 14 });
+    await expect(doc.reload()).resolves.toEqual({
+      theme: 'light',
+      fontSize: 12,
+    });
+    await vi.runAllTimersAsync();
+
+    expect(load).toHaveBeenCalledWith(testFile);
+    expect(save).not.toHaveBeenCalled();
+    expect(doc.dirty).toBe(false);
+  });
+
+  it('should flush on close and reject later changes', async () => {
+    save.mockResolvedValue();
+    const doc = createDocument(
+      testFile,
+      { theme: 'light', fontSize: 14 },
+      load,
+      save,
+      { autosave: 100 },
+    );
+
+    doc.set({ theme: 'dark', fontSize: 14 });
+    await doc.close();
+
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(() => doc.set({ theme: 'light', fontSize: 14 })).toThrow(/closed/);
+    expect(doc.get()).toEqual({ theme: 'dark', fontSize: 14 });
+  });
+});
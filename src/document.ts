@@ -0,0 +1,232 @@
+import { ZodFileError } from './errors';
+
+/**
+ * Options for the document handle returned by `open`.
+ *
+ * @example
+ * ```typescript
+ * const doc = await store.open('./settings.json', {
+ *   autosave: 500,
+ *   onError: (error) => console.error(`Autosave failed: ${error.message}`),
+ * });
+ * ```
+ */
+export type DocumentOptions = {
+  /**
+   * Delay in milliseconds after the last change before the document is saved
+   * automatically. Bursts of changes within this delay are coalesced into
+   * a single save.
+   *
+   * When not set, changes are only written by `flush`.
+   */
+  autosave?: number;
+
+  /**
+   * Called when an automatic save fails. The changes are kept in memory and
+   * the document stays dirty.
+   *
+   * @param error - The error that prevented saving the document
+   */
+  onError?: (error: ZodFileError) => void;
+};
+
+/**
+ * A handle bound to a single file, holding its current value in memory.
+ *
+ * Created by the `open` method of a ZodFile instance.
+ *
+ * @typeParam T - The data type managed by the ZodFile instance
+ *
+ * @example
+ * ```typescript
+ * const doc = await store.open('./settings.json', { autosave: 500 });
+ *
+ * doc.mutate((settings) => {
+ *   settings.theme = 'dark';
+ * });
+ * console.log(doc.get().theme); // 'dark'
+ *
+ * await doc.close();
+ * ```
+ */
+export type ZodFileDocument<T> = {
+  /**
+   * Path to the file this document is bound to.
+   */
+  readonly path: string;
+
+  /**
+   * Whether the in-memory value has changes that were not saved yet.
+   */
+  readonly dirty: boolean;
+
+  /**
+   * Returns the current in-memory value.
+   *
+   * @returns The current value
+   */
+  get(): T;
+
+  /**
+   * Replaces the in-memory value and schedules an automatic save if enabled.
+   *
+   * @param value - The new value
+   */
+  set(value: T): void;
+
+  /**
+   * Changes the in-memory value with a function and schedules an automatic
+   * save if enabled.
+   *
+   * The function may modify the value in place, or return a new value.
+   *
+   * @param fn - Function modifying or replacing the current value
+   */
+  mutate(fn: (value: T) => T | void): void;
+
+  /**
+   * Reloads the value from the file, discarding unsaved changes.
+   *
+   * @returns The reloaded value
+   * @throws {ZodFileError} When loading fails
+   */
+  reload(): Promise<T>;
+
+  /**
+   * Saves unsaved changes immediately, cancelling any pending automatic save.
+   * Resolves once the value is written, including saves already in progress.
+   *
+   * @throws {ZodFileError} When saving fails
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Saves unsaved changes and stops automatic saves. The document can still
+   * be read, but can no longer be changed.
+   *
+   * @throws {ZodFileError} When saving fails
+   */
+  close(): Promise<void>;
+};
+
+/**
+ * Creates a document handle bound to a file.
+ *
+ * @param filePath - Path to the file
+ * @param initial - The value loaded from the file
+ * @param load - Loads the file
+ * @param save - Saves a value to the file
+ * @param options - Document options
+ * @returns A document handle
+ */
+export function createDocument<T>(
+  filePath: string,
+  initial: T,
+  load: (filePath: string) => Promise<T>,
+  save: (data: T, filePath: string) => Promise<void>,
+  options: DocumentOptions,
+): ZodFileDocument<T> {
+  const { autosave, onError } = options;
+
+  let value = initial;
+  let dirty = false;
+  let closed = false;
+  let timer: NodeJS.Timeout | undefined;
+  let saving: Promise<void> | undefined;
+
+  function assertOpen() {
+    if (closed) {
+      throw new Error(`Document is closed: ${filePath}`);
+    }
+  }
+
+  function changed() {
+    dirty = true;
+    if (autosave === undefined) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = undefined;
+      flush().catch((error: unknown) => {
+        onError?.(
+          error instanceof ZodFileError
+            ? error
+            : new ZodFileError(
+                'FileWrite',
+                `Failed to save file: ${filePath}`,
+                error instanceof Error ? error : new Error(String(error)),
+              ),
+        );
+      });
+    }, autosave);
+  }
+
+  async function flush(): Promise<void> {
+    clearTimeout(timer);
+    timer = undefined;
+
+    // Wait for the save in progress, then save again if changed meanwhile
+    while (saving !== undefined) {
+      await saving.catch(() => undefined);
+    }
+    if (!dirty) {
+      return;
+    }
+
+    const snapshot = value;
+    dirty = false;
+    saving = save(snapshot, filePath);
+    try {
+      await saving;
+    } catch (error) {
+      // Keep unsaved changes so that the next flush retries
+      dirty = true;
+      throw error;
+    } finally {
+      saving = undefined;
+    }
+  }
+
+  return {
+    path: filePath,
+    get dirty() {
+      return dirty;
+    },
+    get() {
+      return value;
+    },
+    set(newValue) {
+      assertOpen();
+      value = newValue;
+      changed();
+    },
+    mutate(fn) {
+      assertOpen();
+      const result = fn(value);
+      if (result !== undefined) {
+        value = result;
+      }
+      changed();
+    },
+    async reload() {
+      assertOpen();
+      clearTimeout(timer);
+      timer = undefined;
+      while (saving !== undefined) {
+        await saving.catch(() => undefined);
+      }
+      value = await load(filePath);
+      dirty = false;
+      return value;
+    },
+    flush,
+    async close() {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      await flush();
+    },
+  };
+}
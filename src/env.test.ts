@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import { applyOverrides, envName, readEnv, restoreOverridden } from './env';
+import { ZodFileError } from './errors';
+
+describe('envName', () => {
+  it('should convert keys to upper snake case', () => {
+    expect(envName('port')).toBe('PORT');
+    expect(envName('fontSize')).toBe('FONT_SIZE');
+    expect(envName('max-retries')).toBe('MAX_RETRIES');
+  });
+});
+
+describe('readEnv', () => {
+  const schema = z.object({
+    name: z.string(),
+    port: z.number().optional(),
+    debug: z.boolean().default(false),
+    level: z.enum(['info', 'warn']),
+    tags: z.array(z.string()),
+    database: z.object({ host: z.string(), maxPool: z.number() }),
+  });
+
+  it('should convert values to the type of their field', () => {
+    const source = {
+      APP_NAME: 'server',
+      APP_PORT: ' 8080 ',
+      APP_DEBUG: 'yes',
+      APP_LEVEL: 'warn',
+      APP_TAGS: '["a","b"]',
+      APP_DATABASE__MAX_POOL: '10',
+      OTHER_NAME: 'ignored',
+    };
+
+    expect(readEnv(schema, { prefix: 'APP_', source })).toEqual([
+      { variable: 'APP_NAME', path: ['name'], value: 'server' },
+      { variable: 'APP_PORT', path: ['port'], value: 8080 },
+      { variable: 'APP_DEBUG', path: ['debug'], value: true },
+      { variable: 'APP_LEVEL', path: ['level'], value: 'warn' },
+      { variable: 'APP_TAGS', path: ['tags'], value: ['a', 'b'] },
+      {
+        variable: 'APP_DATABASE__MAX_POOL',
+        path: ['database', 'maxPool'],
+        value: 10,
+      },
+    ]);
+  });
+
+  it('should read objects before their fields', () => {
+    const source = {
+      APP_DATABASE__HOST: 'db',
+      APP_DATABASE: '{"host":"localhost","maxPool":5}',
+    };
+
+    expect(
+      readEnv(schema, { prefix: 'APP_', source }).map(({ path }) => path),
+    ).toEqual([['database'], ['database', 'host']]);
+  });
+
+  it('should use a custom separator', () => {
+    const source = { APP_DATABASE_HOST: 'db' };
+
+    expect(readEnv(schema, { prefix: 'APP_', separator: '_', source })).toEqual(
+      [
+        {
+          variable: 'APP_DATABASE_HOST',
+          path: ['database', 'host'],
+          value: 'db',
+        },
+      ],
+    );
+  });
+
+  it.each([
+    ['APP_PORT', 'eighty', 'expected a number'],
+    ['APP_PORT', '', 'expected a number'],
+    ['APP_DEBUG', 'maybe', 'expected a boolean'],
+    ['APP_LEVEL', 'error', 'expected one of "info", "warn"'],
+    ['APP_TAGS', '[a', 'expected JSON'],
+  ])('should reject %s=%j', (variable, value, expected) => {
+    const source = { [variable]: value };
+
+    expect(() => readEnv(schema, { prefix: 'APP_', source })).toThrow(
+      new ZodFileError(
+        'Validation',
+        `Invalid environment variable ${variable}: ${expected}, got ${JSON.stringify(value)}`,
+      ),
+    );
+  });
+});
+
+describe('applyOverrides', () => {
+  it('should record the values of the file that overrides replace', () => {
+    const overrides = [
+      { variable: 'APP_DB', path: ['db'], value: { host: 'a', port: 1 } },
+      { variable: 'APP_DB__PORT', path: ['db', 'port'], value: 2 },
+      { variable: 'APP_LOG__LEVEL', path: ['log', 'level'], value: 'warn' },
+    ];
+
+    expect(applyOverrides({ db: { host: 'b', port: 3 } }, overrides)).toEqual({
+      data: { db: { host: 'a', port: 2 }, log: { level: 'warn' } },
+      overridden: [
+        {
+          path: ['db'],
+          value: { host: 'a', port: 2 },
+          original: { host: 'b', port: 3 },
+        },
+        { path: ['db', 'port'], value: 2, original: 3 },
+        { path: ['log'], value: { level: 'warn' }, original: undefined },
+      ],
+    });
+  });
+});
+
+describe('restoreOverridden', () => {
+  it('should restore the values of the file for unchanged values', () => {
+    const overridden = [
+      { path: ['db', 'port'], value: 2, original: 3 },
+      { path: ['db', 'host'], value: 'a', original: 'b' },
+      { path: ['log'], value: { level: 'warn' }, original: undefined },
+    ];
+
+    expect(
+      restoreOverridden(
+        { db: { host: 'c', port: 2 }, log: { level: 'warn' } },
+        overridden,
+      ),
+    ).toEqual({ db: { host: 'c', port: 3 } });
+  });
+});
@@ -0,0 +1,218 @@
+import { z } from 'zod';
+
+import { allowedValues, inspectField } from './annotate';
+import { ZodFileError } from './errors';
+import { type FieldValue, isEqual, valueAt, withFields } from './patch';
+
+/**
+ * Where to read environment variables overriding the values of files.
+ *
+ * @example
+ * ```typescript
+ * // APP_DATABASE__PORT=5433 overrides database.port
+ * const env: EnvOptions = { prefix: 'APP_' };
+ * ```
+ */
+export type EnvOptions = {
+  /**
+   * Prefix of the variable names, e.g. `APP_`.
+   */
+  prefix: string;
+
+  /**
+   * Separator between the keys of nested fields in variable names.
+   *
+   * @defaultValue '__'
+   */
+  separator?: string;
+
+  /**
+   * The environment to read variables from.
+   *
+   * @defaultValue process.env
+   */
+  source?: Record<string, string | undefined>;
+};
+
+/**
+ * A value read from an environment variable.
+ */
+export type EnvOverride = FieldValue & {
+  /**
+   * Name of the variable.
+   */
+  variable: string;
+};
+
+/**
+ * A value of a file replaced by environment variables, with the value that
+ * replaced it.
+ */
+export type OverriddenValue = FieldValue & {
+  /**
+   * The value of the file, or undefined if the file had none.
+   */
+  original: unknown;
+};
+
+/**
+ * Converts a key to its form in variable names, e.g. `fontSize` to
+ * `FONT_SIZE`.
+ */
+export function envName(key: string): string {
+  return key
+    .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z\d]+/g, '_')
+    .toUpperCase();
+}
+
+/**
+ * Converts the string value of a variable to the type of a field.
+ *
+ * @throws {ZodFileError} With code `Validation` when the value cannot be converted
+ */
+function coerce(value: string, schema: z.ZodType, variable: string): unknown {
+  const fail = (expected: string): never => {
+    throw new ZodFileError(
+      'Validation',
+      `Invalid environment variable ${variable}: expected ${expected}, got ${JSON.stringify(value)}`,
+    );
+  };
+
+  const { inner } = inspectField(schema);
+  const values = allowedValues(inner);
+  if (values !== undefined) {
+    const match = values.find((allowed) => String(allowed) === value);
+    if (match === undefined) {
+      const formatted = values.map((allowed) => JSON.stringify(allowed));
+      return fail(`one of ${formatted.join(', ')}`);
+    }
+    return match;
+  }
+  if (inner instanceof z.ZodNumber) {
+    const number = Number(value.trim());
+    return value.trim() === '' || Number.isNaN(number)
+      ? fail('a number')
+      : number;
+  }
+  if (inner instanceof z.ZodBigInt) {
+    try {
+      return BigInt(value.trim());
+    } catch {
+      return fail('an integer');
+    }
+  }
+  if (inner instanceof z.ZodBoolean) {
+    if (/^(true|1|yes|on)$/i.test(value.trim())) {
+      return true;
+    }
+    if (/^(false|0|no|off)$/i.test(value.trim())) {
+      return false;
+    }
+    return fail('a boolean');
+  }
+  if (
+    inner instanceof z.ZodObject ||
+    inner instanceof z.ZodArray ||
+    inner instanceof z.ZodTuple ||
+    inner instanceof z.ZodRecord
+  ) {
+    try {
+      return JSON.parse(value) as unknown;
+    } catch {
+      return fail('JSON');
+    }
+  }
+  return value;
+}
+
+/**
+ * Reads the environment variables overriding the fields of a schema.
+ *
+ * Each field maps to the variable made of the prefix and the keys leading to
+ * the field, in upper snake case and joined by the separator, e.g.
+ * `APP_DATABASE__PORT` for `database.port`. Values are converted to the type
+ * of their field: numbers, booleans, enum values, or JSON for arrays and
+ * objects. Variables of objects come before the variables of their fields,
+ * so that fields override whole objects.
+ *
+ * @param schema - The object schema of the data
+ * @param options - The prefix, separator and source of the variables
+ * @param path - Keys leading to the schema in the data
+ * @returns The overrides of the variables that are set
+ * @throws {ZodFileError} With code `Validation` when a value cannot be converted to its field's type
+ */
+export function readEnv(
+  schema: z.ZodObject,
+  options: EnvOptions,
+  path: string[] = [],
+): EnvOverride[] {
+  const { prefix, separator = '__', source = process.env } = options;
+  const overrides: EnvOverride[] = [];
+  for (const [key, field] of Object.entries(schema.shape)) {
+    const fieldPath = [...path, key];
+    const variable = prefix + fieldPath.map(envName).join(separator);
+    const value = source[variable];
+    if (value !== undefined) {
+      overrides.push({
+        variable,
+        path: fieldPath,
+        value: coerce(value, field as z.ZodType, variable),
+      });
+    }
+    const { inner } = inspectField(field as z.ZodType);
+    if (inner instanceof z.ZodObject) {
+      overrides.push(...readEnv(inner, options, fieldPath));
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Applies environment variable overrides to encoded data.
+ *
+ * @param data - The encoded data
+ * @param overrides - The overrides, as read by {@link readEnv}
+ * @returns The data with the overrides applied, and the values they replaced
+ */
+export function applyOverrides(
+  data: unknown,
+  overrides: EnvOverride[],
+): { data: unknown; overridden: OverriddenValue[] } {
+  const result = withFields(data, overrides);
+  const overridden = overrides.map(({ path }) => {
+    // Objects created for the override are removed with it
+    const end = path.findIndex(
+      (_, i) => valueAt(data, path.slice(0, i + 1)) === undefined,
+    );
+    const keys = end === -1 ? path : path.slice(0, end + 1);
+    return {
+      path: keys,
+      value: valueAt(result, keys),
+      original: valueAt(data, keys),
+    };
+  });
+  return { data: result, overridden };
+}
+
+/**
+ * Puts the values of the file back in place of the values of environment
+ * variables, for values that did not change since they were loaded, so that
+ * overrides are not saved to the file.
+ *
+ * @param data - The encoded data to save
+ * @param overridden - The values replaced when the file was loaded
+ * @returns The data with the unchanged values replaced by the values of the file
+ */
+export function restoreOverridden(
+  data: unknown,
+  overridden: OverriddenValue[],
+): unknown {
+  let result = data;
+  for (const { path, value, original } of overridden) {
+    if (isEqual(valueAt(result, path), value)) {
+      result = withFields(result, [{ path, value: original }]);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+
+import { createEnvelope } from './envelope';
+import { type Serializer } from './persistence';
+
+const jsonLike: Serializer = {
+  formatName: 'JSON',
+  parse: (content) => JSON.parse(content) as unknown,
+  stringify: (data) => JSON.stringify(data),
+};
+
+const yamlLike: Serializer = {
+  ...jsonLike,
+  formatName: 'YAML',
+  commentPrefix: '#',
+};
+
+describe('createEnvelope', () => {
+  describe('field', () => {
+    it('should read and remove the version field', () => {
+      const envelope = createEnvelope({ type: 'field' }, jsonLike);
+
+      expect(envelope.unwrap('', { _version: 2, theme: 'dark' })).toEqual({
+        version: 2,
+        data: { theme: 'dark' },
+      });
+    });
+
+    it('should use a custom field name', () => {
+      const envelope = createEnvelope(
+        { type: 'field', field: 'schemaVersion' },
+        jsonLike,
+      );
+
+      expect(envelope.description).toBe('schemaVersion field');
+      expect(
+        envelope.unwrap('', { schemaVersion: 2, _version: 'mine' }),
+      ).toEqual({ version: 2, data: { _version: 'mine' } });
+      expect(envelope.wrap({ theme: 'dark' }, 2)).toEqual({
+        data: { schemaVersion: 2, theme: 'dark' },
+      });
+    });
+
+    it('should report a missing field', () => {
+      const envelope = createEnvelope({ type: 'field' }, jsonLike);
+
+      expect(envelope.unwrap('', { theme: 'dark' })).toBeUndefined();
+      expect(envelope.unwrap('', null)).toBeUndefined();
+    });
+  });
+
+  describe('meta', () => {
+    it('should read the version from the metadata block', () => {
+      const envelope = createEnvelope({ type: 'meta' }, jsonLike);
+
+      expect(
+        envelope.unwrap('', {
+          meta: { version: 2, savedAt: '2024-01-01T00:00:00.000Z' },
+          data: { theme: 'dark' },
+        }),
+      ).toEqual({ version: 2, data: { theme: 'dark' } });
+    });
+
+    it('should write the version and save time in the metadata block', () => {
+      const envelope = createEnvelope({ type: 'meta' }, jsonLike);
+
+      expect(envelope.wrap({ theme: 'dark' }, 2)).toEqual({
+        data: {
+          meta: { version: 2, savedAt: expect.any(String) },
+          data: { theme: 'dark' },
+        },
+      });
+    });
+
+    it('should use custom block names and omit the save time', () => {
+      const envelope = createEnvelope(
+        {
+          type: 'meta',
+          metaField: '$meta',
+          dataField: 'settings',
+          savedAt: false,
+        },
+        jsonLike,
+      );
+
+      expect(envelope.description).toBe('$meta.version field');
+      expect(envelope.wrap({ theme: 'dark' }, 2)).toEqual({
+        data: { $meta: { version: 2 }, settings: { theme: 'dark' } },
+      });
+    });
+
+    it('should report a missing metadata block', () => {
+      const envelope = createEnvelope({ type: 'meta' }, jsonLike);
+
+      expect(envelope.unwrap('', { data: { theme: 'dark' } })).toBeUndefined();
+      expect(envelope.unwrap('', { meta: {}, data: {} })).toBeUndefined();
+    });
+  });
+
+  describe('comment', () => {
+    it('should read the version from the header comment', () => {
+      const envelope = createEnvelope({ type: 'comment' }, yamlLike);
+
+      expect(
+        envelope.unwrap('# Settings\n# version: 2\ntheme: dark', {
+          theme: 'dark',
+        }),
+      ).toEqual({ version: 2, data: { theme: 'dark' } });
+    });
+
+    it('should return a non-numeric version as-is', () => {
+      const envelope = createEnvelope({ type: 'comment' }, yamlLike);
+
+      expect(envelope.unwrap('# version: two\n', {})).toEqual({
+        version: 'two',
+        data: {},
+      });
+    });
+
+    it('should ignore comments after the header', () => {
+      const envelope = createEnvelope({ type: 'comment' }, yamlLike);
+
+      expect(
+        envelope.unwrap('theme: dark\n# version: 2', { theme: 'dark' }),
+      ).toBeUndefined();
+    });
+
+    it('should write a header comment with a custom label', () => {
+      const envelope = createEnvelope(
+        { type: 'comment', label: 'schema-version' },
+        yamlLike,
+      );
+
+      expect(envelope.wrap({ theme: 'dark' }, 2)).toEqual({
+        data: { theme: 'dark' },
+        header: '# schema-version: 2',
+      });
+    });
+
+    it('should strip the header comment', () => {
+      const envelope = createEnvelope({ type: 'comment' }, yamlLike);
+
+      expect(envelope.strip('# Settings\n# version: 2\ntheme: dark\n')).toBe(
+        '# Settings\ntheme: dark\n',
+      );
+      expect(envelope.strip('theme: dark\n# version: 2')).toBe(
+        'theme: dark\n# version: 2',
+      );
+    });
+
+    it('should throw for formats without comments', () => {
+      expect(() => createEnvelope({ type: 'comment' }, jsonLike)).toThrow(
+        'JSON does not',
+      );
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { type Serializer } from './persistence';
+
+/**
+ * Where the schema version is stored in a versioned file.
+ *
+ * - `field`: a field at the root of the document, next to the data.
+ * - `meta`: a metadata block next to a data block.
+ * - `comment`: a header comment, e.g. `# version: 2`.
+ *
+ * The `comment` envelope is only available for formats that support
+ * comments, such as YAML and TOML.
+ *
+ * @example
+ * ```typescript
+ * // { "schemaVersion": 2, "theme": "dark" }
+ * const envelope: VersionEnvelope = { type: 'field', field: 'schemaVersion' };
+ *
+ * // { "meta": { "version": 2, "savedAt": "..." }, "data": { "theme": "dark" } }
+ * const envelope: VersionEnvelope = { type: 'meta' };
+ *
+ * // # version: 2
+ * // theme: dark
+ * const envelope: VersionEnvelope = { type: 'comment' };
+ * ```
+ */
+export type VersionEnvelope =
+  | {
+      type: 'field';
+      /**
+       * Name of the version field.
+       *
+       * @defaultValue '_version'
+       */
+      field?: string;
+    }
+  | {
+      type: 'meta';
+      /**
+       * Name of the metadata block.
+       *
+       * @defaultValue 'meta'
+       */
+      metaField?: string;
+      /**
+       * Name of the data block.
+       *
+       * @defaultValue 'data'
+       */
+      dataField?: string;
+      /**
+       * Whether to record the time of the save as `savedAt` in the metadata
+       * block.
+       *
+       * @defaultValue true
+       */
+      savedAt?: boolean;
+    }
+  | {
+      type: 'comment';
+      /**
+       * Label of the version in the header comment.
+       *
+       * @defaultValue 'version'
+       */
+      label?: string;
+    };
+
+/**
+ * Reads and writes the version of a file with a given envelope.
+ */
+export type Envelope = {
+  /**
+   * Where the version is stored, for error messages, e.g. `_version field`.
+   */
+  description: string;
+
+  /**
+   * Keys leading to the data in wrapped files.
+   */
+  dataPath: string[];
+
+  /**
+   * Extracts the version and the data from a file.
+   *
+   * @param content - The raw file content
+   * @param parsed - The parsed file content
+   * @returns The raw version value and the data, or undefined when the file has no version
+   */
+  unwrap(
+    content: string,
+    parsed: unknown,
+  ): { version: unknown; data: unknown } | undefined;
+
+  /**
+   * Wraps encoded data with a version.
+   *
+   * @param data - The encoded data
+   * @param version - The version to write
+   * @returns The data to stringify, and a header to write before it
+   */
+  wrap(data: unknown, version: number): { data: unknown; header?: string };
+
+  /**
+   * Removes the header written by `wrap` from a file.
+   *
+   * @param content - The raw file content
+   * @returns The content without the header
+   */
+  strip(content: string): string;
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Creates the reader and writer for a version envelope.
+ *
+ * @param envelope - Where the version is stored
+ * @param serializer - The serializer of the file format
+ * @returns The envelope reader and writer
+ * @throws {Error} If the envelope requires comments and the format does not support them
+ */
+export function createEnvelope(
+  envelope: VersionEnvelope,
+  serializer: Serializer,
+): Envelope {
+  switch (envelope.type) {
+    case 'field': {
+      const { field = '_version' } = envelope;
+      return {
+        description: `${field} field`,
+        dataPath: [],
+        unwrap(_content, parsed) {
+          if (!isObject(parsed) || !(field in parsed)) {
+            return undefined;
+          }
+          const { [field]: version, ...data } = parsed;
+          return { version, data };
+        },
+        wrap(data, version) {
+          return {
+            data: { [field]: version, ...(isObject(data) ? data : {}) },
+          };
+        },
+        strip(content) {
+          return content;
+        },
+      };
+    }
+
+    case 'meta': {
+      const {
+        metaField = 'meta',
+        dataField = 'data',
+        savedAt = true,
+      } = envelope;
+      return {
+        description: `${metaField}.version field`,
+        dataPath: [dataField],
+        unwrap(_content, parsed) {
+          if (!isObject(parsed)) {
+            return undefined;
+          }
+          const meta = parsed[metaField];
+          if (!isObject(meta) || !('version' in meta)) {
+            return undefined;
+          }
+          return { version: meta.version, data: parsed[dataField] };
+        },
+        wrap(data, version) {
+          const meta = savedAt
+            ? { version, savedAt: new Date().toISOString() }
+            : { version };
+          return { data: { [metaField]: meta, [dataField]: data } };
+        },
+        strip(content) {
+          return content;
+        },
+      };
+    }
+
+    case 'comment': {
+      const { label = 'version' } = envelope;
+      const prefix = serializer.commentPrefix;
+      if (prefix === undefined) {
+        throw new Error(
+          `The comment version envelope requires a format that supports comments, but ${serializer.formatName} does not`,
+        );
+      }
+      const pattern = new RegExp(
+        `^\\s*${escapeRegExp(prefix)}\\s*${escapeRegExp(label)}\\s*:\\s*(.*?)\\s*$`,
+      );
+      /**
+       * Finds the header line among the comments and blank lines at the top
+       * of the file.
+       */
+      const findHeader = (lines: string[]) => {
+        for (let i = 0; i < lines.length; i++) {
+          const line = lines[i];
+          if (pattern.test(line)) {
+            return i;
+          }
+          if (line.trim() !== '' && !line.trimStart().startsWith(prefix)) {
+            break;
+          }
+        }
+        return -1;
+      };
+      return {
+        description: `${label} comment`,
+        dataPath: [],
+        unwrap(content, parsed) {
+          const lines = content.split(/\r?\n/);
+          const index = findHeader(lines);
+          const match = index === -1 ? null : pattern.exec(lines[index]);
+          if (match === null) {
+            return undefined;
+          }
+          const value = match[1];
+          const version = /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+          return { version, data: parsed };
+        },
+        wrap(data, version) {
+          return { data, header: `${prefix} ${label}: ${version}` };
+        },
+        strip(content) {
+          const lines = content.split('\n');
+          const index = findHeader(lines);
+          if (index === -1) {
+            return content;
+          }
+          lines.splice(index, 1);
+          return lines.join('\n');
+        },
+      };
+    }
+  }
+}
@@ -24,12 +24,17 @@
 export type ErrorCode =
   | 'FileRead' // File could not be read from disk
   | 'FileWrite' // File could not be written to disk
+  | 'FileExists' // File already exists and would be overwritten
   | 'InvalidFormat' // File content is not valid (JSON, YAML, etc.)
-  | 'InvalidVersion' // `_version` field is missing, not an integer, or ≤ 0
+  | 'InvalidVersion' // Version is missing, not an integer, or below the first version
   | 'UnsupportedVersion' // File version is greater than the current schema version
   | 'Validation' // Data does not match the Zod schema
+  | 'Interpolation' // A reference in a string value could not be resolved
+  | 'Include' // An included file could not be read or parsed, or includes are invalid
   | 'Migration' // A migration function threw an error
   | 'Encoding' // Schema encoding failed during save
+  | 'Lock' // The lock file could not be acquired or released
+  | 'UnknownFormat' // The file format could not be determined from the path or content
   | 'MissingDependency'; // An optional dependency (like js-yaml) is not installed
 
 /**
@@ -0,0 +1,255 @@
+import fs from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ZodFileError } from './errors';
+import { type Composition, resolveIncludes, restoreIncludes } from './include';
+import { jsonSerializer } from './json';
+import { yamlSerializer } from './yaml';
+
+vi.mock('node:fs/promises');
+const mockFsPromises = vi.mocked(fs);
+
+const mainFile = '/app/config.json';
+
+function mockFiles(files: Record<string, string>) {
+  mockFsPromises.readFile.mockImplementation((path) =>
+    typeof path === 'string' && path in files
+      ? Promise.resolve(files[path])
+      : Promise.reject(
+          Object.assign(new Error('File not found'), { code: 'ENOENT' }),
+        ),
+  );
+}
+
+describe('resolveIncludes', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should merge included files under the keys of the object', async () => {
+    mockFiles({
+      '/app/base.json': '{"port": 80, "log": {"level": "info", "file": "a"}}',
+      '/app/shared/log.json': '{"log": {"level": "warn"}}',
+    });
+    const parsed = {
+      $include: ['./base.json', './shared/log.json'],
+      port: 8080,
+    };
+
+    await expect(
+      resolveIncludes(parsed, mainFile, jsonSerializer, {}),
+    ).resolves.toEqual({ port: 8080, log: { level: 'warn', file: 'a' } });
+  });
+
+  it('should substitute references in place', async () => {
+    mockFiles({ '/app/servers.json': '[{"host": "a"}, {"host": "b"}]' });
+    const parsed = { name: 'app', servers: { $ref: 'servers.json' } };
+
+    await expect(
+      resolveIncludes(parsed, mainFile, jsonSerializer, {}),
+    ).resolves.toEqual({
+      name: 'app',
+      servers: [{ host: 'a' }, { host: 'b' }],
+    });
+  });
+
+  it('should resolve nested includes relative to their file', async () => {
+    mockFiles({
+      '/app/db/main.json': '{"$include": "./defaults.json", "name": "main"}',
+      '/app/db/defaults.json': '{"pool": 5}',
+    });
+    const parsed = { database: { $ref: './db/main.json' } };
+
+    await expect(
+      resolveIncludes(parsed, mainFile, jsonSerializer, {}),
+    ).resolves.toEqual({ database: { pool: 5, name: 'main' } });
+  });
+
+  it('should parse included files by extension', async () => {
+    mockFiles({ '/app/db.yaml': 'host: localhost\nport: 5432\n' });
+    const parsed = { database: { $ref: './db.yaml' } };
+
+    await expect(
+      resolveIncludes(parsed, mainFile, jsonSerializer, {
+        formats: { '.yaml': yamlSerializer },
+      }),
+    ).resolves.toEqual({ database: { host: 'localhost', port: 5432 } });
+  });
+
+  it('should detect circular includes', async () => {
+    mockFiles({
+      '/app/a.json': '{"$include": "./b.json"}',
+      '/app/b.json': '{"$include": "./a.json"}',
+    });
+
+    await expect(
+      resolveIncludes({ $include: './a.json' }, mainFile, jsonSerializer, {}),
+    ).rejects.toThrow(
+      new ZodFileError(
+        'Include',
+        'Circular include in file: /app/b.json. /app/a.json -> /app/b.json -> /app/a.json',
+      ),
+    );
+  });
+
+  it('should limit the depth of includes', async () => {
+    mockFiles({
+      '/app/1.json': '{"$include": "./2.json"}',
+      '/app/2.json': '{"$include": "./3.json"}',
+      '/app/3.json': '{}',
+    });
+
+    await expect(
+      resolveIncludes({ $include: './1.json' }, mainFile, jsonSerializer, {
+        maxDepth: 2,
+      }),
+    ).rejects.toThrow(
+      new ZodFileError(
+        'Include',
+        'Maximum include depth of 2 exceeded in file: /app/2.json',
+      ),
+    );
+  });
+
+  it('should name the file that includes a missing file', async () => {
+    mockFiles({ '/app/a.json': '{"$include": "./missing.json"}' });
+
+    const error = await resolveIncludes(
+      { $include: './a.json' },
+      mainFile,
+      jsonSerializer,
+      {},
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ZodFileError);
+    expect(error).toMatchObject({
+      code: 'Include',
+      message:
+        'Failed to read included file: /app/missing.json, included from: /app/a.json',
+      cause: expect.objectContaining({ code: 'ENOENT' }),
+    });
+  });
+
+  it('should name included files that cannot be parsed', async () => {
+    mockFiles({ '/app/a.json': '{not json' });
+
+    await expect(
+      resolveIncludes({ $include: './a.json' }, mainFile, jsonSerializer, {}),
+    ).rejects.toThrow('Invalid JSON in included file: /app/a.json');
+  });
+
+  it.each([
+    [{ $include: 42 }, 'Invalid include in file: /app/config.json'],
+    [
+      { value: { $ref: './a.json', other: 1 } },
+      'Invalid $ref in file: /app/config.json',
+    ],
+    [
+      { $include: './list.json' },
+      'Included file does not contain an object: ./list.json',
+    ],
+  ])('should reject invalid includes in %j', async (parsed, message) => {
+    mockFiles({ '/app/list.json': '[1, 2]' });
+
+    await expect(
+      resolveIncludes(parsed, mainFile, jsonSerializer, {}),
+    ).rejects.toThrow(message);
+  });
+});
+
+describe('restoreIncludes', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFiles({
+      '/app/base.json': '{"port": 80, "log": {"level": "info", "file": "a"}}',
+      '/app/servers.json': '[{"host": "a"}, {"host": "b"}]',
+      '/app/db.json': '{"host": "localhost", "port": 5432}',
+    });
+  });
+
+  async function compose(raw: unknown): Promise<Composition> {
+    const bases = new WeakMap<object, unknown>();
+    const composed = await resolveIncludes(
+      raw,
+      mainFile,
+      jsonSerializer,
+      {},
+      bases,
+    );
+    return { raw, composed, bases };
+  }
+
+  it('should keep unchanged files as they were written', async () => {
+    const raw = { $include: './base.json', servers: { $ref: 'servers.json' } };
+    const composition = await compose(raw);
+
+    expect(
+      restoreIncludes(
+        structuredClone(composition.composed),
+        composition,
+        mainFile,
+      ),
+    ).toBe(raw);
+  });
+
+  it('should save only the values that differ from included files', async () => {
+    const composition = await compose({ $include: './base.json', port: 8080 });
+
+    expect(
+      restoreIncludes(
+        { port: 9090, log: { level: 'debug', file: 'a' }, name: 'app' },
+        composition,
+        mainFile,
+      ),
+    ).toEqual({
+      $include: './base.json',
+      port: 9090,
+      log: { level: 'debug' },
+      name: 'app',
+    });
+  });
+
+  it('should keep references next to changed values', async () => {
+    const composition = await compose({
+      name: 'app',
+      servers: { $ref: 'servers.json' },
+    });
+
+    expect(
+      restoreIncludes(
+        { name: 'web', servers: [{ host: 'a' }, { host: 'b' }] },
+        composition,
+        mainFile,
+      ),
+    ).toEqual({ name: 'web', servers: { $ref: 'servers.json' } });
+  });
+
+  it('should include referenced objects that changed', async () => {
+    const composition = await compose({ database: { $ref: './db.json' } });
+
+    expect(
+      restoreIncludes(
+        { database: { host: 'db', port: 5432 } },
+        composition,
+        mainFile,
+      ),
+    ).toEqual({ database: { $include: './db.json', host: 'db' } });
+  });
+
+  it('should keep values removed from included files', async () => {
+    const composition = await compose({ $include: './base.json' });
+
+    expect(restoreIncludes({ port: 80 }, composition, mainFile)).toEqual({
+      $include: './base.json',
+    });
+  });
+
+  it('should throw Include when a referenced array changes', async () => {
+    const composition = await compose({ servers: { $ref: 'servers.json' } });
+
+    expect(() =>
+      restoreIncludes({ servers: [{ host: 'c' }] }, composition, mainFile),
+    ).toThrowZodFileError('Include');
+  });
+});
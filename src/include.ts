@@ -0,0 +1,353 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { ZodFileError } from './errors';
+import { mergeDeep } from './merge';
+import { isEqual, isPlainObject } from './patch';
+import { type Serializer } from './persistence';
+
+/**
+ * How files are composed from other files with `$include` and `$ref`.
+ *
+ * @example
+ * ```typescript
+ * const includes: IncludeOptions = {
+ *   maxDepth: 5,
+ *   formats: { '.yaml': yamlSerializer, '.toml': tomlSerializer },
+ * };
+ * ```
+ */
+export type IncludeOptions = {
+  /**
+   * How many files deep includes can be nested.
+   *
+   * @defaultValue 10
+   */
+  maxDepth?: number;
+
+  /**
+   * Serializers of included files by extension, including the leading dot.
+   * Files with other extensions are parsed in the format of the file that
+   * includes them.
+   */
+  formats?: Record<string, Serializer>;
+};
+
+/**
+ * The content of a file that includes other files, before and after its
+ * includes were resolved, to save data with its includes.
+ */
+export type Composition = {
+  /** The parsed content of the file, with its `$include` and `$ref` keys */
+  raw: unknown;
+
+  /** The content of the file with its includes resolved */
+  composed: unknown;
+
+  /**
+   * The merged content of the included files of each object of `raw` with a
+   * `$include` key, as recorded by {@link resolveIncludes}
+   */
+  bases: WeakMap<object, unknown>;
+};
+
+/**
+ * Replaces the `$include` and `$ref` keys of parsed file content with the
+ * content of the files they reference, relative to the file holding them.
+ *
+ * An object with a `$include` key, holding a path or an array of paths, is
+ * the deep merge of the included files, in order, and of its own keys. An
+ * object with only a `$ref` key is replaced with the content of the
+ * referenced file. Included files can include other files in turn.
+ *
+ * @param parsed - The parsed content of the file
+ * @param filePath - Path of the file
+ * @param serializer - Serializer of the file, for included files of unknown formats
+ * @param options - The maximum depth and formats of included files
+ * @param bases - Receives the merged content of the included files of each object with a `$include` key
+ * @returns The content with includes and references replaced
+ * @throws {ZodFileError} With code `Include` when an included file cannot be read or parsed, is included in a cycle or too deep, or when `$include` or `$ref` is invalid, naming the file where it happened
+ */
+export async function resolveIncludes(
+  parsed: unknown,
+  filePath: string,
+  serializer: Serializer,
+  options: IncludeOptions,
+  bases?: WeakMap<object, unknown>,
+): Promise<unknown> {
+  const { maxDepth = 10, formats = {} } = options;
+
+  async function load(
+    reference: unknown,
+    from: string,
+    stack: string[],
+  ): Promise<unknown> {
+    if (typeof reference !== 'string') {
+      throw new ZodFileError(
+        'Include',
+        `Invalid include in file: ${from}. Expected a path, got ${JSON.stringify(reference)}`,
+      );
+    }
+    const target = path.resolve(path.dirname(from), reference);
+    if (stack.includes(target)) {
+      const cycle = [...stack.slice(stack.indexOf(target)), target];
+      throw new ZodFileError(
+        'Include',
+        `Circular include in file: ${from}. ${cycle.join(' -> ')}`,
+      );
+    }
+    if (stack.length > maxDepth) {
+      throw new ZodFileError(
+        'Include',
+        `Maximum include depth of ${maxDepth} exceeded in file: ${from}`,
+      );
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(target, 'utf-8');
+    } catch (error) {
+      throw new ZodFileError(
+        'Include',
+        `Failed to read included file: ${target}, included from: ${from}`,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+
+    const extension = path.extname(target).toLowerCase();
+    const fileSerializer = Object.hasOwn(formats, extension)
+      ? formats[extension]
+      : serializer;
+    let value: unknown;
+    try {
+      value = fileSerializer.parse(content);
+    } catch (error) {
+      let message = `Invalid ${fileSerializer.formatName} in included file: ${target}`;
+      if (error instanceof Error) {
+        message = `${message}\n${error.message}`;
+      }
+      throw new ZodFileError(
+        'Include',
+        message,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+    return expand(value, target, [...stack, target]);
+  }
+
+  async function expand(
+    value: unknown,
+    file: string,
+    stack: string[],
+  ): Promise<unknown> {
+    if (Array.isArray(value)) {
+      const result: unknown[] = [];
+      for (const item of value) {
+        result.push(await expand(item, file, stack));
+      }
+      return result;
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    if (Object.hasOwn(value, '$ref')) {
+      if (Object.keys(value).length > 1) {
+        throw new ZodFileError(
+          'Include',
+          `Invalid $ref in file: ${file}. $ref must be the only key of its object`,
+        );
+      }
+      return load(value.$ref, file, stack);
+    }
+
+    const own: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (key !== '$include') {
+        // Define keys so that `__proto__` cannot change the prototype
+        Object.defineProperty(own, key, {
+          value: await expand(item, file, stack),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+    }
+    if (!Object.hasOwn(value, '$include')) {
+      return own;
+    }
+
+    const references = Array.isArray(value.$include)
+      ? (value.$include as unknown[])
+      : [value.$include];
+    let merged: unknown = {};
+    for (const reference of references) {
+      const included = await load(reference, file, stack);
+      if (!isPlainObject(included)) {
+        throw new ZodFileError(
+          'Include',
+          `Invalid include in file: ${file}. Included file does not contain an object: ${String(reference)}`,
+        );
+      }
+      merged = mergeDeep(merged, included);
+    }
+    bases?.set(value, merged);
+    return mergeDeep(merged, own);
+  }
+
+  return expand(parsed, filePath, [path.resolve(filePath)]);
+}
+
+/**
+ * Whether a value holds `$include` or `$ref` keys.
+ */
+function hasIncludes(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(hasIncludes);
+  }
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  return (
+    Object.hasOwn(value, '$include') ||
+    Object.hasOwn(value, '$ref') ||
+    Object.values(value).some(hasIncludes)
+  );
+}
+
+function defineKey(
+  target: Record<string, unknown>,
+  key: string,
+  value: unknown,
+): void {
+  // Define keys so that `__proto__` cannot change the prototype
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Puts the `$include` and `$ref` keys of a file back in place of the content
+ * of the files they include, for data saved to the file.
+ *
+ * Values that did not change since the file was loaded are saved as they
+ * were written. Objects with a `$include` key keep it, and hold only their
+ * own keys and the values that differ from the included files. A changed
+ * object with a `$ref` key becomes an object including the referenced file,
+ * with the values that differ from it. Included files are never written, so
+ * values removed from them are loaded again.
+ *
+ * @param data - The data to save, with the version of the file
+ * @param composition - The content of the file when it was loaded
+ * @param filePath - Path of the file, for errors
+ * @returns The data with its includes and references
+ * @throws {ZodFileError} With code `Include` when a changed value cannot be written over the files it comes from, e.g. a referenced array
+ */
+export function restoreIncludes(
+  data: unknown,
+  { raw, composed, bases }: Composition,
+  filePath: string,
+): unknown {
+  function unsupported(): never {
+    throw new ZodFileError(
+      'Include',
+      `Cannot save changes to included values in file: ${filePath}. Change the included files instead`,
+    );
+  }
+
+  // The keys to write over included values to obtain a value, added to
+  // the given object
+  function overrides(
+    base: unknown,
+    value: unknown,
+    result: Record<string, unknown> = {},
+  ): unknown {
+    if (!isPlainObject(base) || !isPlainObject(value)) {
+      return value;
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) {
+        continue;
+      }
+      if (!Object.hasOwn(base, key)) {
+        defineKey(result, key, item);
+      } else if (!isEqual(base[key], item)) {
+        defineKey(result, key, overrides(base[key], item));
+      }
+    }
+    return result;
+  }
+
+  function restore(
+    rawValue: unknown,
+    composedValue: unknown,
+    value: unknown,
+  ): unknown {
+    if (isEqual(composedValue, value)) {
+      return rawValue;
+    }
+    if (!hasIncludes(rawValue)) {
+      return value;
+    }
+    if (Array.isArray(rawValue)) {
+      if (
+        !Array.isArray(composedValue) ||
+        !Array.isArray(value) ||
+        value.length !== rawValue.length
+      ) {
+        unsupported();
+      }
+      return rawValue.map((item, i) =>
+        restore(item, composedValue[i], value[i]),
+      );
+    }
+    if (
+      !isPlainObject(rawValue) ||
+      !isPlainObject(composedValue) ||
+      !isPlainObject(value)
+    ) {
+      unsupported();
+    }
+    if (Object.hasOwn(rawValue, '$ref')) {
+      return overrides(composedValue, value, { $include: rawValue.$ref });
+    }
+
+    const base = bases.get(rawValue) ?? {};
+    const result: Record<string, unknown> = {};
+    if (Object.hasOwn(rawValue, '$include')) {
+      result.$include = rawValue.$include;
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item === undefined) {
+        continue;
+      }
+      const included = isPlainObject(base) && Object.hasOwn(base, key);
+      const baseItem = included ? base[key] : undefined;
+      if (key !== '$include' && Object.hasOwn(rawValue, key)) {
+        if (!included) {
+          defineKey(
+            result,
+            key,
+            restore(rawValue[key], composedValue[key], item),
+          );
+        } else if (isEqual(composedValue[key], item)) {
+          defineKey(result, key, rawValue[key]);
+        } else if (!hasIncludes(rawValue[key])) {
+          defineKey(result, key, overrides(baseItem, item));
+        } else {
+          unsupported();
+        }
+      } else if (!included) {
+        defineKey(result, key, item);
+      } else if (!isEqual(baseItem, item)) {
+        defineKey(result, key, overrides(baseItem, item));
+      }
+    }
+    return result;
+  }
+
+  return restore(raw, composed, data);
+}
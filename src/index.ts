@@ -4,8 +4,10 @@
  * This module exports core types and the generic {@link createZodFile} factory.
  * For format-specific factories, use the subpath exports:
  * - `zod-file/json` for JSON files
+ * - `zod-file/jsonc` for JSON files with comments and trailing commas
  * - `zod-file/yaml` for YAML files (requires `js-yaml` peer dependency)
  * - `zod-file/toml` for TOML files (requires `smol-toml` peer dependency)
+ * - `zod-file/auto` for any of these formats, picked by file extension
  *
  * @packageDocumentation
  *
@@ -72,13 +74,53 @@
  */
 
 export {
+  type InitOptions,
+  type Interpolate,
+  type LegacySource,
   type LoadOptions,
+  type LoadResult,
+  type LoadSyncOptions,
+  type MergeDefaults,
+  type MigrationDryRun,
+  type MigrationPlan,
   type MigrationStep,
+  type MigrationStepResult,
+  type OpenOptions,
   type SaveOptions,
+  type SaveSyncOptions,
   type Serializer,
+  type UpdateOptions,
+  type Updater,
+  type WriteBackMigrated,
   type ZodFile,
   type ZodFileOptions,
   createZodFile,
 } from './persistence';
 
+export {
+  type MigrationChain,
+  type MigrationChainBuilder,
+  migrations,
+} from './migrations';
+export { type Annotation } from './annotate';
+export { type DocumentOptions, type ZodFileDocument } from './document';
+export { type EnvOptions } from './env';
+export { type VersionEnvelope } from './envelope';
 export { type ErrorCode, ZodFileError } from './errors';
+export { type IncludeOptions } from './include';
+export { type Resolver, type ResolverContext } from './interpolate';
+export {
+  type Layer,
+  type LayerSource,
+  type LayeredResult,
+  type ZodLayered,
+  type ZodLayeredOptions,
+  createZodLayered,
+} from './layered';
+export { type LockOptions } from './lock';
+export { type ArrayMergeStrategy } from './merge';
+export {
+  type WatchHandle,
+  type WatchListener,
+  type WatchOptions,
+} from './watch';
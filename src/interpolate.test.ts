@@ -0,0 +1,198 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ZodFileError } from './errors';
+import {
+  type Resolver,
+  defaultResolvers,
+  resolveReferences,
+  restoreTemplates,
+} from './interpolate';
+
+vi.mock('node:fs/promises');
+
+const mockFsPromises = vi.mocked(fs);
+
+describe('resolveReferences', () => {
+  const filePath = '/app/config.json';
+  const resolvers: Record<string, Resolver> = {
+    upper: (reference) => reference.toUpperCase(),
+    port: () => 8080,
+  };
+
+  it('should resolve references in strings, arrays and objects', async () => {
+    const data = {
+      name: '${upper:app}',
+      paths: ['/srv/${upper:data}', 'plain'],
+      nested: { url: 'http://${upper:host}:${port:}' },
+      count: 3,
+    };
+
+    await expect(resolveReferences(data, filePath, resolvers)).resolves.toEqual(
+      {
+        data: {
+          name: 'APP',
+          paths: ['/srv/DATA', 'plain'],
+          nested: { url: 'http://HOST:8080' },
+          count: 3,
+        },
+        templates: [
+          { path: ['name'], template: '${upper:app}', value: 'APP' },
+          {
+            path: ['paths', '0'],
+            template: '/srv/${upper:data}',
+            value: '/srv/DATA',
+          },
+          {
+            path: ['nested', 'url'],
+            template: 'http://${upper:host}:${port:}',
+            value: 'http://HOST:8080',
+          },
+        ],
+      },
+    );
+  });
+
+  it('should keep the type of a single reference', async () => {
+    const { data } = await resolveReferences(
+      { port: '${port:}' },
+      filePath,
+      resolvers,
+    );
+
+    expect(data).toEqual({ port: 8080 });
+  });
+
+  it('should keep escaped references', async () => {
+    const { data } = await resolveReferences(
+      { text: 'cost: $${upper:x}' },
+      filePath,
+      resolvers,
+    );
+
+    expect(data).toEqual({ text: 'cost: ${upper:x}' });
+  });
+
+  it('should pass the file and key to resolvers', async () => {
+    const resolver = vi.fn<Resolver>().mockReturnValue('value');
+
+    await resolveReferences({ a: { b: '${custom:ref}' } }, filePath, {
+      custom: resolver,
+    });
+
+    expect(resolver).toHaveBeenCalledWith('ref', {
+      filePath,
+      path: ['a', 'b'],
+    });
+  });
+
+  it('should resolve self references through other references', async () => {
+    const data = {
+      server: { host: '${upper:localhost}', port: 80 },
+      url: 'http://${self:server.host}:${self:server.port}',
+      copy: '${self:server}',
+    };
+
+    await expect(
+      resolveReferences(data, filePath, resolvers),
+    ).resolves.toMatchObject({
+      data: {
+        server: { host: 'LOCALHOST', port: 80 },
+        url: 'http://LOCALHOST:80',
+        copy: { host: 'LOCALHOST', port: 80 },
+      },
+    });
+  });
+
+  it('should detect circular self references', async () => {
+    const data = { a: '${self:b}', b: 'x${self:c}', c: '${self:a}' };
+
+    const error = await resolveReferences(data, filePath, resolvers).catch(
+      (e: unknown) => e,
+    );
+
+    expect(error).toBeInstanceOf(ZodFileError);
+    expect(error).toMatchObject({
+      code: 'Interpolation',
+      message: `Failed to resolve "\${self:b}" at a in file: ${filePath}: Circular reference: a -> b -> c -> a`,
+    });
+  });
+
+  it.each([
+    ['${missing:x}', 'Unknown resolver: missing'],
+    ['${self:nowhere}', 'No value at nowhere'],
+    ['${fail:x}', 'boom'],
+  ])('should report the key of %s', async (template, reason) => {
+    const data = { server: { host: template } };
+
+    await expect(
+      resolveReferences(data, filePath, {
+        fail: () => {
+          throw new Error('boom');
+        },
+      }),
+    ).rejects.toThrow(
+      new ZodFileError(
+        'Interpolation',
+        `Failed to resolve ${JSON.stringify(template)} at server.host in file: ${filePath}: ${reason}`,
+      ),
+    );
+  });
+});
+
+describe('defaultResolvers', () => {
+  const context = { filePath: '/app/config.json', path: ['key'] };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should read environment variables', () => {
+    vi.stubEnv('ZOD_FILE_TEST', 'value');
+
+    expect(defaultResolvers.env('ZOD_FILE_TEST', context)).toBe('value');
+  });
+
+  it('should reject unset environment variables', async () => {
+    vi.stubEnv('ZOD_FILE_TEST', undefined);
+
+    await expect(async () =>
+      defaultResolvers.env('ZOD_FILE_TEST', context),
+    ).rejects.toThrow('Environment variable ZOD_FILE_TEST is not set');
+  });
+
+  it('should read files relative to the loaded file', async () => {
+    mockFsPromises.readFile.mockResolvedValue('secret\n');
+
+    await expect(defaultResolvers.file('./secret.txt', context)).resolves.toBe(
+      'secret',
+    );
+    expect(mockFsPromises.readFile).toHaveBeenCalledWith(
+      path.resolve('/app/secret.txt'),
+      'utf-8',
+    );
+  });
+});
+
+describe('restoreTemplates', () => {
+  it('should restore templates of unchanged values', () => {
+    const templates = [
+      { path: ['home'], template: '${env:HOME}', value: '/root' },
+      { path: ['dirs', '0'], template: '${env:TMP}', value: '/tmp' },
+      { path: ['name'], template: '${env:USER}', value: 'root' },
+    ];
+
+    expect(
+      restoreTemplates(
+        { home: '/root', dirs: ['/tmp'], name: 'admin' },
+        templates,
+      ),
+    ).toEqual({ home: '${env:HOME}', dirs: ['${env:TMP}'], name: 'admin' });
+  });
+});
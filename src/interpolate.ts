@@ -0,0 +1,234 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+import { ZodFileError } from './errors';
+import {
+  type FieldValue,
+  isEqual,
+  isPlainObject,
+  valueAt,
+  withFields,
+} from './patch';
+
+/**
+ * Where a reference is resolved.
+ */
+export type ResolverContext = {
+  /**
+   * Path of the file being loaded.
+   */
+  filePath: string;
+
+  /**
+   * Keys leading to the string value holding the reference.
+   */
+  path: string[];
+};
+
+/**
+ * Resolves the references of one kind, e.g. `HOME` in `${env:HOME}`.
+ *
+ * A reference that makes up a whole string value is replaced with the
+ * returned value as is. A reference within a longer string is replaced with
+ * the returned value converted to a string.
+ *
+ * @param reference - The text after the colon in the reference
+ * @param context - The file and the key holding the reference
+ * @returns The value of the reference, or a promise of it
+ * @throws {Error} When the reference cannot be resolved
+ */
+export type Resolver = (reference: string, context: ResolverContext) => unknown;
+
+/**
+ * A string value of a file that held references, with its resolved value.
+ */
+export type Template = FieldValue & {
+  /**
+   * The string value before resolution.
+   */
+  template: string;
+};
+
+/**
+ * Built-in resolvers: `${env:NAME}` reads an environment variable, and
+ * `${file:PATH}` reads a file relative to the loaded file, without its
+ * trailing newline.
+ */
+export const defaultResolvers: Record<string, Resolver> = {
+  env(name) {
+    const value = process.env[name];
+    if (value === undefined) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    return value;
+  },
+  async file(reference, { filePath }) {
+    const content = await fs.readFile(
+      path.resolve(path.dirname(filePath), reference),
+      'utf-8',
+    );
+    return content.replace(/\r?\n$/, '');
+  },
+};
+
+// `${name:reference}`, or `$${name:reference}` for the literal text
+const REFERENCE = /\$(\$?)\{([A-Za-z][\w-]*):([^}]*)\}/g;
+
+/**
+ * Resolves the `${name:reference}` references in the string values of data,
+ * with the given resolvers and the `self` resolver, which reads another value
+ * of the data by its dotted path, e.g. `${self:server.host}`.
+ *
+ * @param data - The data of the file
+ * @param filePath - Path of the file, for relative references and errors
+ * @param resolvers - The resolvers, by name
+ * @returns The resolved data, and the string values that held references
+ * @throws {ZodFileError} With code `Interpolation` when a reference cannot be resolved, naming its key
+ */
+export async function resolveReferences(
+  data: unknown,
+  filePath: string,
+  resolvers: Record<string, Resolver>,
+): Promise<{ data: unknown; templates: Template[] }> {
+  const templates: Template[] = [];
+  const resolved = new Map<string, unknown>();
+
+  const fail = (
+    keys: string[],
+    template: string,
+    reason: string,
+    cause?: Error,
+  ): never => {
+    throw new ZodFileError(
+      'Interpolation',
+      `Failed to resolve ${JSON.stringify(template)} at ${keys.join('.')} in file: ${filePath}: ${reason}`,
+      cause,
+    );
+  };
+
+  async function resolveString(
+    template: string,
+    keys: string[],
+    stack: string[],
+  ): Promise<unknown> {
+    const id = JSON.stringify(keys);
+    if (resolved.has(id)) {
+      return resolved.get(id);
+    }
+    if (stack.includes(id)) {
+      const cycle = [...stack.slice(stack.indexOf(id)), id].map((item) =>
+        (JSON.parse(item) as string[]).join('.'),
+      );
+      return fail(keys, template, `Circular reference: ${cycle.join(' -> ')}`);
+    }
+
+    const parts: unknown[] = [];
+    let last = 0;
+    for (const match of template.matchAll(REFERENCE)) {
+      const [text, escape, name, reference] = match;
+      parts.push(template.slice(last, match.index));
+      last = match.index + text.length;
+      if (escape !== '') {
+        parts.push(text.slice(1));
+        continue;
+      }
+      let value: unknown;
+      try {
+        if (name === 'self') {
+          const target = reference.split('.');
+          value = valueAt(data, target);
+          if (value === undefined) {
+            throw new Error(`No value at ${reference}`);
+          }
+          value = await resolveValue(value, target, [...stack, id]);
+        } else {
+          if (!Object.hasOwn(resolvers, name)) {
+            throw new Error(`Unknown resolver: ${name}`);
+          }
+          value = await resolvers[name](reference, { filePath, path: keys });
+        }
+      } catch (error) {
+        if (error instanceof ZodFileError) {
+          throw error;
+        }
+        return fail(
+          keys,
+          template,
+          error instanceof Error ? error.message : String(error),
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+      parts.push(value);
+    }
+    if (parts.length === 0) {
+      return template;
+    }
+    parts.push(template.slice(last));
+
+    // A single reference keeps the type of its value
+    const value =
+      parts.length === 3 && parts[0] === '' && parts[2] === ''
+        ? parts[1]
+        : parts
+            .map((part) =>
+              typeof part === 'string' ? part : JSON.stringify(part),
+            )
+            .join('');
+    resolved.set(id, value);
+    templates.push({ path: keys, template, value });
+    return value;
+  }
+
+  async function resolveValue(
+    value: unknown,
+    keys: string[],
+    stack: string[],
+  ): Promise<unknown> {
+    if (typeof value === 'string') {
+      return resolveString(value, keys, stack);
+    }
+    if (Array.isArray(value)) {
+      const result: unknown[] = [];
+      for (const [index, item] of value.entries()) {
+        result.push(await resolveValue(item, [...keys, String(index)], stack));
+      }
+      return result;
+    }
+    if (isPlainObject(value)) {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        // Define keys so that `__proto__` cannot change the prototype
+        Object.defineProperty(result, key, {
+          value: await resolveValue(item, [...keys, key], stack),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      return result;
+    }
+    return value;
+  }
+
+  return { data: await resolveValue(data, [], []), templates };
+}
+
+/**
+ * Puts the templates back in place of their resolved values, for values that
+ * did not change since they were loaded.
+ *
+ * @param data - The encoded data to save
+ * @param templates - The templates of the loaded file
+ * @returns The data with the unchanged values replaced by their templates
+ */
+export function restoreTemplates(
+  data: unknown,
+  templates: Template[],
+): unknown {
+  return withFields(
+    data,
+    templates
+      .filter(({ path: keys, value }) => isEqual(valueAt(data, keys), value))
+      .map(({ path: keys, template }) => ({ path: keys, value: template })),
+  );
+}
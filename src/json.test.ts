@@ -8,12 +8,18 @@ import { createZodJSON } from './json';
 
 vi.mock('node:fs/promises');
 const mockFsPromises = vi.mocked(fs);
+const mockFileHandle = {
+  sync: vi.fn(),
+  close: vi.fn(),
+} as unknown as fs.FileHandle;
 
 const testFile = '/tmp/zod-file-test.json';
 
 describe('createZodJSON', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    mockFsPromises.open.mockResolvedValue(mockFileHandle);
+    mockFsPromises.realpath.mockRejectedValue(new Error('ENOENT'));
   });
 
   describe('basic load and save', () => {
@@ -0,0 +1,138 @@
+import fs from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { ZodFileError } from './errors';
+import { createZodJSONC, parseJSONC } from './jsonc';
+
+vi.mock('node:fs/promises');
+const mockFsPromises = vi.mocked(fs);
+const mockFileHandle = {
+  sync: vi.fn(),
+  close: vi.fn(),
+} as unknown as fs.FileHandle;
+
+const testFile = '/tmp/zod-file-test.jsonc';
+
+describe('parseJSONC', () => {
+  it('should parse standard JSON', () => {
+    const content = '{"a": [1, -2.5e3, true, false, null], "b": {"c": "d"}}';
+
+    expect(parseJSONC(content)).toEqual(JSON.parse(content));
+  });
+
+  it('should ignore line and block comments', () => {
+    expect(
+      parseJSONC(`// Settings
+{
+  /* The theme */
+  "theme": "dark", // or "light"
+  "url": "https://example.com/*not-a-comment*/"
+}`),
+    ).toEqual({ theme: 'dark', url: 'https://example.com/*not-a-comment*/' });
+  });
+
+  it('should accept trailing commas', () => {
+    expect(parseJSONC('{"a": [1, 2,], "b": 3,}')).toEqual({ a: [1, 2], b: 3 });
+  });
+
+  it('should accept JSON5 syntax', () => {
+    expect(
+      parseJSONC(`{
+  unquoted: 'single quoted',
+  $dollar_key: "line \\
+continuation",
+  hex: 0xFF,
+  leading: .5,
+  trailing: 5.,
+  plus: +1,
+  negative: -Infinity,
+  escapes: '\\x41\\u0042\\'\\t',
+}`),
+    ).toEqual({
+      unquoted: 'single quoted',
+      $dollar_key: 'line continuation',
+      hex: 255,
+      leading: 0.5,
+      trailing: 5,
+      plus: 1,
+      negative: -Infinity,
+      escapes: "AB'\t",
+    });
+    expect(parseJSONC('NaN')).toBeNaN();
+  });
+
+  it('should not let keys change the prototype', () => {
+    const parsed = parseJSONC('{"__proto__": {"polluted": true}}') as Record<
+      string,
+      unknown
+    >;
+
+    expect(Object.getPrototypeOf(parsed)).toBe(Object.prototype);
+    expect(parsed.__proto__).toEqual({ polluted: true });
+  });
+
+  it.each([
+    [
+      '{\n  "a": 1\n  "b": 2\n}',
+      'Unexpected character "\\"" at line 3, column 3',
+    ],
+    ['{"a": 1', 'Unexpected end of input at line 1, column 8'],
+    ['{\n  "a": "text\n}', 'Unterminated string at line 2, column 8'],
+    ['/* comment', 'Unterminated comment at line 1, column 1'],
+    ['{"a": 1} 2', 'Unexpected character "2" at line 1, column 10'],
+    ['{"a": [1,,2]}', 'Unexpected character "," at line 1, column 10'],
+  ])(
+    'should report the position of syntax errors in %j',
+    (content, message) => {
+      expect(() => parseJSONC(content)).toThrow(new SyntaxError(message));
+    },
+  );
+});
+
+describe('createZodJSONC', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+    mockFsPromises.open.mockResolvedValue(mockFileHandle);
+    mockFsPromises.realpath.mockRejectedValue(new Error('ENOENT'));
+  });
+
+  it('should load hand-edited files with comments', async () => {
+    const schema = z.object({ name: z.string(), age: z.number() });
+    const store = createZodJSONC({ schema });
+
+    mockFsPromises.readFile.mockResolvedValue(
+      '{\n  // Who\n  "name": "Alice",\n  "age": 30,\n}\n',
+    );
+
+    await expect(store.load(testFile)).resolves.toEqual({
+      name: 'Alice',
+      age: 30,
+    });
+  });
+
+  it('should save standard JSON', async () => {
+    const schema = z.object({ name: z.string(), age: z.number() });
+    const store = createZodJSONC({ schema });
+
+    await store.save({ name: 'Alice', age: 30 }, testFile);
+
+    const writtenContent = mockFsPromises.writeFile.mock
+      .calls[0]?.[1] as string;
+    expect(JSON.parse(writtenContent)).toEqual({ name: 'Alice', age: 30 });
+  });
+
+  it('should throw InvalidFormat with the position of syntax errors', async () => {
+    const schema = z.object({ theme: z.string() });
+    const store = createZodJSONC({ schema });
+
+    mockFsPromises.readFile.mockResolvedValue('{\n  "theme": dark\n}');
+
+    await expect(store.load(testFile)).rejects.toThrow(ZodFileError);
+    await expect(store.load(testFile)).rejects.toThrowZodFileError(
+      'InvalidFormat',
+    );
+    await expect(store.load(testFile)).rejects.toThrow('line 2, column 12');
+  });
+});
@@ -0,0 +1,288 @@
+import {
+  type Serializer,
+  type ZodFile,
+  type ZodFileOptions,
+  createZodFile,
+} from './persistence';
+
+const escapes: Record<string, string> = {
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '0': '\0',
+  '"': '"',
+  "'": "'",
+  '\\': '\\',
+  '/': '/',
+};
+
+const identifierStart = /[A-Za-z_$]/;
+const identifierPart = /[\w$]/;
+const whitespace = /[ \t\n\r\v\f\u00A0\uFEFF\u2028\u2029]/;
+
+/**
+ * Parses JSON with comments, trailing commas and JSON5 syntax: single-quoted
+ * strings, unquoted keys, hexadecimal numbers, leading or trailing decimal
+ * points, explicit plus signs, `Infinity` and `NaN`.
+ *
+ * @param content - The content to parse
+ * @returns The parsed value
+ * @throws {SyntaxError} With the line and column of the first syntax error
+ */
+export function parseJSONC(content: string): unknown {
+  let pos = 0;
+
+  function fail(message: string, at = pos): never {
+    const before = content.slice(0, at).split(/\r\n|\r|\n/);
+    const line = before.length;
+    const column = before[before.length - 1].length + 1;
+    throw new SyntaxError(`${message} at line ${line}, column ${column}`);
+  }
+
+  function unexpected(): never {
+    if (pos >= content.length) {
+      fail('Unexpected end of input');
+    }
+    fail(`Unexpected character ${JSON.stringify(content[pos])}`);
+  }
+
+  function skipWhitespaceAndComments() {
+    while (pos < content.length) {
+      const char = content[pos];
+      if (whitespace.test(char)) {
+        pos++;
+      } else if (content.startsWith('//', pos)) {
+        while (pos < content.length && !/[\n\r]/.test(content[pos])) {
+          pos++;
+        }
+      } else if (content.startsWith('/*', pos)) {
+        const end = content.indexOf('*/', pos + 2);
+        if (end === -1) {
+          fail('Unterminated comment');
+        }
+        pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  }
+
+  function parseValue(): unknown {
+    skipWhitespaceAndComments();
+    const char = content.charAt(pos);
+    if (char === '{') {
+      return parseObject();
+    }
+    if (char === '[') {
+      return parseArray();
+    }
+    if (char === '"' || char === "'") {
+      return parseString();
+    }
+    if (/[-+.\dIN]/.test(char)) {
+      return parseNumber();
+    }
+    for (const [literal, value] of [
+      ['true', true],
+      ['false', false],
+      ['null', null],
+    ] as const) {
+      if (content.startsWith(literal, pos)) {
+        pos += literal.length;
+        return value;
+      }
+    }
+    return unexpected();
+  }
+
+  function parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    pos++; // {
+    skipWhitespaceAndComments();
+    while (content[pos] !== '}') {
+      const key = parseKey();
+      skipWhitespaceAndComments();
+      if (content[pos] !== ':') {
+        unexpected();
+      }
+      pos++;
+      const value = parseValue();
+      Object.defineProperty(result, key, {
+        value,
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+      skipWhitespaceAndComments();
+      if (content[pos] === ',') {
+        pos++;
+        skipWhitespaceAndComments();
+      } else if (content[pos] !== '}') {
+        unexpected();
+      }
+    }
+    pos++; // }
+    return result;
+  }
+
+  function parseKey(): string {
+    const char = content.charAt(pos);
+    if (char === '"' || char === "'") {
+      return parseString();
+    }
+    if (!identifierStart.test(char)) {
+      unexpected();
+    }
+    const start = pos;
+    while (pos < content.length && identifierPart.test(content[pos])) {
+      pos++;
+    }
+    return content.slice(start, pos);
+  }
+
+  function parseArray(): unknown[] {
+    const result: unknown[] = [];
+    pos++; // [
+    skipWhitespaceAndComments();
+    while (content[pos] !== ']') {
+      result.push(parseValue());
+      skipWhitespaceAndComments();
+      if (content[pos] === ',') {
+        pos++;
+        skipWhitespaceAndComments();
+      } else if (content[pos] !== ']') {
+        unexpected();
+      }
+    }
+    pos++; // ]
+    return result;
+  }
+
+  function parseString(): string {
+    const quote = content[pos];
+    const start = pos;
+    pos++;
+    let result = '';
+    while (pos < content.length) {
+      const char = content[pos];
+      if (char === quote) {
+        pos++;
+        return result;
+      }
+      if (char === '\n' || char === '\r') {
+        break;
+      }
+      if (char !== '\\') {
+        result += char;
+        pos++;
+        continue;
+      }
+
+      const escape = content.charAt(pos + 1);
+      if (escape === 'u' || escape === 'x') {
+        const length = escape === 'u' ? 4 : 2;
+        const hex = content.slice(pos + 2, pos + 2 + length);
+        if (!new RegExp(`^[\\da-fA-F]{${length}}$`).test(hex)) {
+          fail('Invalid escape sequence');
+        }
+        result += String.fromCharCode(parseInt(hex, 16));
+        pos += 2 + length;
+      } else if (escape === '\r' || escape === '\n') {
+        // Line continuation
+        pos += content.startsWith('\r\n', pos + 1) ? 3 : 2;
+      } else if (escape in escapes) {
+        result += escapes[escape];
+        pos += 2;
+      } else if (escape !== '') {
+        result += escape;
+        pos += 2;
+      } else {
+        break;
+      }
+    }
+    return fail('Unterminated string', start);
+  }
+
+  function parseNumber(): number {
+    const match =
+      /^[-+]?(?:Infinity|NaN|0[xX][\da-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/.exec(
+        content.slice(pos),
+      );
+    if (match === null) {
+      unexpected();
+    }
+    const text = match[0];
+    pos += text.length;
+    const sign = text.startsWith('-') ? -1 : 1;
+    const unsigned = text.replace(/^[-+]/, '');
+    if (/^0[xX]/.test(unsigned)) {
+      return sign * parseInt(unsigned, 16);
+    }
+    return sign * Number(unsigned);
+  }
+
+  const value = parseValue();
+  skipWhitespaceAndComments();
+  if (pos < content.length) {
+    unexpected();
+  }
+  return value;
+}
+
+/**
+ * Built-in JSONC serializer.
+ *
+ * Parses JSON with comments, trailing commas and JSON5 syntax, and writes
+ * standard JSON with 2-space indentation for pretty output, or no
+ * indentation when compact is true. Comments are not preserved on save.
+ */
+export const jsoncSerializer: Serializer = {
+  formatName: 'JSONC',
+  parse(content: string): unknown {
+    return parseJSONC(content);
+  },
+  stringify(data: unknown, compact: boolean): string {
+    return compact ? JSON.stringify(data) : JSON.stringify(data, null, 2);
+  },
+  commentPrefix: '//',
+};
+
+/**
+ * Creates a ZodFile persistence instance for type-safe operations on JSON
+ * files that may contain comments.
+ *
+ * Files are parsed leniently, accepting comments, trailing commas and JSON5
+ * syntax, so that hand-edited files load instead of failing with an
+ * `InvalidFormat` error. Syntax errors report their line and column. Files
+ * are saved as standard JSON.
+ *
+ * @typeParam V - The current schema version number
+ * @typeParam T - The data type produced by the schema
+ * @param options - Configuration options for the persistence instance
+ * @returns A {@link ZodFile} instance with typed `load` and `save` methods
+ * @throws {Error} If the migration chain is invalid (non-sequential or incomplete)
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ * import { createZodJSONC } from 'zod-file/jsonc';
+ *
+ * const SettingsSchema = z.object({ theme: z.string() });
+ * const settings = createZodJSONC({
+ *   schema: SettingsSchema,
+ *   default: { theme: 'light' },
+ * });
+ *
+ * // Loads { theme: 'dark', } // the user's favorite
+ * const data = await settings.load('./settings.jsonc');
+ * ```
+ */
+export function createZodJSONC<
+  V extends number,
+  T extends Record<string, unknown>,
+>(options: ZodFileOptions<V, T>): ZodFile<T> {
+  return createZodFile(options, jsoncSerializer);
+}
@@ -0,0 +1,190 @@
+import fs from 'node:fs/promises';
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { createZodJSON } from './json';
+import { createZodLayered } from './layered';
+import { createZodYAML } from './yaml';
+
+vi.mock('node:fs/promises');
+const mockFsPromises = vi.mocked(fs);
+
+const systemFile = '/etc/app/config.yaml';
+const userFile = '/home/user/.config/app/config.yaml';
+const projectFile = '/project/.apprc';
+
+const ConfigSchema = z.object({
+  registry: z.string().default('https://registry.example.com'),
+  verbose: z.boolean().default(false),
+  editor: z
+    .object({
+      fontSize: z.number().default(12),
+      theme: z.string().default('light'),
+    })
+    .prefault({}),
+  plugins: z.array(z.string()).default([]),
+});
+const LayerSchema = z.object({
+  registry: z.string().optional(),
+  verbose: z.boolean().optional(),
+  editor: z
+    .object({ fontSize: z.number(), theme: z.string() })
+    .partial()
+    .optional(),
+  plugins: z.array(z.string()).optional(),
+});
+
+function mockFiles(files: Record<string, string>) {
+  mockFsPromises.readFile.mockImplementation((path) =>
+    typeof path === 'string' && path in files
+      ? Promise.resolve(files[path])
+      : Promise.reject(
+          Object.assign(new Error('File not found'), { code: 'ENOENT' }),
+        ),
+  );
+}
+
+describe('createZodLayered', () => {
+  const yamlLayer = createZodYAML({ schema: LayerSchema });
+  const jsonLayer = createZodJSON({ schema: LayerSchema });
+  const layers = [
+    { path: systemFile, zodFile: yamlLayer },
+    { path: userFile, zodFile: yamlLayer },
+    { path: projectFile, zodFile: jsonLayer },
+  ];
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should merge layers in precedence order', async () => {
+    mockFiles({
+      [systemFile]: 'registry: https://mirror.example.com\nverbose: true\n',
+      [userFile]: 'editor:\n  fontSize: 16\n',
+      [projectFile]: '{"verbose": false, "editor": {"theme": "dark"}}',
+    });
+    const config = createZodLayered({ schema: ConfigSchema, layers });
+
+    await expect(config.load()).resolves.toEqual({
+      registry: 'https://mirror.example.com',
+      verbose: false,
+      editor: { fontSize: 16, theme: 'dark' },
+      plugins: [],
+    });
+  });
+
+  it('should report the layer of each value', async () => {
+    mockFiles({
+      [systemFile]: 'registry: https://mirror.example.com\nverbose: true\n',
+      [projectFile]: '{"verbose": false, "editor": {"theme": "dark"}}',
+    });
+    const config = createZodLayered({ schema: ConfigSchema, layers });
+
+    const result = await config.loadWithSources();
+
+    expect(result.loaded).toEqual([systemFile, projectFile]);
+    expect(result.sources).toEqual([
+      { path: ['registry'], layer: systemFile },
+      { path: ['verbose'], layer: projectFile },
+      { path: ['editor', 'theme'], layer: projectFile },
+    ]);
+  });
+
+  it('should replace the sources of values replaced by later layers', async () => {
+    const AnySchema = z.object({ proxy: z.unknown() });
+    const anyLayer = createZodJSON({ schema: AnySchema.partial() });
+    mockFiles({
+      [systemFile]: '{"proxy": {"host": "a", "port": 1}}',
+      [projectFile]: '{"proxy": "direct"}',
+    });
+    const config = createZodLayered({
+      schema: AnySchema,
+      layers: [
+        { path: systemFile, zodFile: anyLayer },
+        { path: projectFile, zodFile: anyLayer },
+      ],
+    });
+
+    await expect(config.loadWithSources()).resolves.toEqual({
+      data: { proxy: 'direct' },
+      loaded: [systemFile, projectFile],
+      sources: [{ path: ['proxy'], layer: projectFile }],
+    });
+  });
+
+  it('should concatenate arrays with the concat strategy', async () => {
+    mockFiles({
+      [systemFile]: 'plugins:\n  - git\n',
+      [userFile]: 'plugins:\n  - lint\n',
+    });
+    const config = createZodLayered({
+      schema: ConfigSchema,
+      layers,
+      arrays: 'concat',
+    });
+
+    await expect(config.load()).resolves.toEqual(
+      expect.objectContaining({ plugins: ['git', 'lint'] }),
+    );
+  });
+
+  it('should merge values that the schemas decode', async () => {
+    const DecodedSchema = z.object({
+      updatedAt: z.codec(z.iso.datetime(), z.date(), {
+        decode: (value) => new Date(value),
+        encode: (date) => date.toISOString(),
+      }),
+      port: z.string().transform(Number),
+    });
+    const decodedLayer = createZodJSON({ schema: DecodedSchema.partial() });
+    mockFiles({
+      [systemFile]: '{"updatedAt": "2024-01-01T00:00:00.000Z", "port": "80"}',
+      [projectFile]: '{"port": "8080"}',
+    });
+    const config = createZodLayered({
+      schema: DecodedSchema,
+      layers: [
+        { path: systemFile, zodFile: decodedLayer },
+        { path: projectFile, zodFile: decodedLayer },
+      ],
+    });
+
+    await expect(config.load()).resolves.toEqual({
+      updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+      port: 8080,
+    });
+  });
+
+  it('should throw Validation when the merged data is invalid', async () => {
+    mockFiles({
+      [systemFile]: 'registry: 42\n',
+    });
+    const config = createZodLayered({
+      schema: ConfigSchema,
+      layers: [
+        {
+          path: systemFile,
+          zodFile: createZodYAML({
+            schema: z.object({ registry: z.unknown() }),
+          }),
+        },
+      ],
+    });
+
+    await expect(config.load()).rejects.toThrowZodFileError('Validation');
+    await expect(config.load()).rejects.toThrow(
+      `Schema validation failed for merged layers: ${systemFile}`,
+    );
+  });
+
+  it('should throw when a layer cannot be loaded', async () => {
+    mockFiles({
+      [projectFile]: '{"verbose": "yes"}',
+    });
+    const config = createZodLayered({ schema: ConfigSchema, layers });
+
+    await expect(config.load()).rejects.toThrowZodFileError('Validation');
+    await expect(config.load()).rejects.toThrow(projectFile);
+  });
+});
@@ -0,0 +1,241 @@
+import { ZodError, z } from 'zod';
+
+import { ZodFileError } from './errors';
+import { type ArrayMergeStrategy, mergeDeep } from './merge';
+import { isPlainObject } from './patch';
+import { type ZodFile, isNotFound, loadedInput } from './persistence';
+
+/**
+ * A configuration file merged by {@link createZodLayered}.
+ */
+export type Layer = {
+  /**
+   * Path to the file.
+   */
+  path: string;
+
+  /**
+   * The instance loading the file, with its own format, schema, version and
+   * migrations.
+   */
+  zodFile: ZodFile<Record<string, unknown>>;
+};
+
+/**
+ * Configuration options for {@link createZodLayered}.
+ *
+ * @typeParam T - The data type produced by the schema
+ */
+export type ZodLayeredOptions<T extends Record<string, unknown>> = {
+  /**
+   * The layers, from the lowest to the highest precedence: values of later
+   * layers override values of earlier layers.
+   */
+  layers: Layer[];
+
+  /**
+   * The Zod object schema validating the merged data.
+   */
+  schema: z.ZodObject<any, any> & z.ZodType<T>;
+
+  /**
+   * How arrays of different layers are merged: `'replace'` keeps the array
+   * of the layer with the highest precedence, `'concat'` appends the items
+   * of the arrays of all layers in order, skipping items already present.
+   *
+   * @defaultValue 'replace'
+   */
+  arrays?: ArrayMergeStrategy;
+};
+
+/**
+ * The layer an effective value came from.
+ */
+export type LayerSource = {
+  /**
+   * Keys leading to the value.
+   */
+  path: string[];
+
+  /**
+   * Path of the file of the layer that set the value.
+   */
+  layer: string;
+};
+
+/**
+ * The merged data of a layered configuration, with the origin of its values.
+ *
+ * @typeParam T - The data type produced by the schema
+ */
+export type LayeredResult<T> = {
+  /**
+   * The merged and validated data.
+   */
+  data: T;
+
+  /**
+   * Paths of the layers that were merged, from the lowest to the highest
+   * precedence. Layers whose file does not exist are skipped.
+   */
+  loaded: string[];
+
+  /**
+   * The layer of each value of the merged data, for values that are not
+   * objects. Values that come from schema defaults have no source.
+   */
+  sources: LayerSource[];
+};
+
+/**
+ * A layered configuration, merging several files into one value.
+ *
+ * @typeParam T - The data type produced by the schema
+ */
+export type ZodLayered<T> = {
+  /**
+   * Loads all layers, merges them and validates the result.
+   *
+   * @returns The merged data
+   * @throws {ZodFileError} When a layer cannot be loaded, or when the merged data does not match the schema
+   */
+  load(): Promise<T>;
+
+  /**
+   * Loads all layers, merges them and validates the result, reporting which
+   * layer each effective value came from.
+   *
+   * @returns The merged data, the loaded layers and the source of each value
+   * @throws {ZodFileError} When a layer cannot be loaded, or when the merged data does not match the schema
+   */
+  loadWithSources(): Promise<LayeredResult<T>>;
+};
+
+/**
+ * Records the layer of each value that is not an object.
+ */
+function collectSources(
+  value: unknown,
+  path: string[],
+  layer: string,
+  sources: Map<string, LayerSource>,
+): void {
+  if (isPlainObject(value)) {
+    sources.delete(JSON.stringify(path));
+    for (const [key, child] of Object.entries(value)) {
+      collectSources(child, [...path, key], layer, sources);
+    }
+    return;
+  }
+  if (value === undefined) {
+    return;
+  }
+  // The value replaces anything an earlier layer set below it
+  const id = JSON.stringify(path);
+  const prefix = id.slice(0, -1);
+  for (const key of sources.keys()) {
+    if (key.startsWith(`${prefix},`)) {
+      sources.delete(key);
+    }
+  }
+  sources.set(id, { path, layer });
+}
+
+/**
+ * Creates a layered configuration that merges several files, such as system,
+ * user and project configuration files.
+ *
+ * Each layer is loaded through its own {@link ZodFile}, so layers can use
+ * different formats, versions and migrations. Layers whose file does not
+ * exist are skipped, unless their instance has a default value. The values
+ * read from the layers, before their schemas decode them, are deep-merged in
+ * precedence order and the result is validated with `schema`, which is where
+ * defaults for values that no layer sets belong.
+ *
+ * Layer schemas usually make every field optional, e.g. with
+ * `schema.partial()`, since each file only sets some values.
+ *
+ * @typeParam T - The data type produced by the schema
+ * @param options - The layers and the schema of the merged data
+ * @returns A {@link ZodLayered} instance
+ *
+ * @example
+ * ```typescript
+ * import os from 'node:os';
+ * import { z } from 'zod';
+ * import { createZodLayered } from 'zod-file';
+ * import { createZodJSON } from 'zod-file/json';
+ * import { createZodYAML } from 'zod-file/yaml';
+ *
+ * const ConfigSchema = z.object({
+ *   registry: z.string().default('https://registry.example.com'),
+ *   verbose: z.boolean().default(false),
+ * });
+ * const yamlLayer = createZodYAML({ schema: ConfigSchema.partial() });
+ * const jsonLayer = createZodJSON({ schema: ConfigSchema.partial() });
+ *
+ * const config = createZodLayered({
+ *   schema: ConfigSchema,
+ *   layers: [
+ *     { path: '/etc/app/config.yaml', zodFile: yamlLayer },
+ *     { path: `${os.homedir()}/.config/app/config.yaml`, zodFile: yamlLayer },
+ *     { path: './.apprc', zodFile: jsonLayer },
+ *   ],
+ * });
+ *
+ * const { data, sources } = await config.loadWithSources();
+ * ```
+ */
+export function createZodLayered<T extends Record<string, unknown>>(
+  options: ZodLayeredOptions<T>,
+): ZodLayered<T> {
+  const { layers, schema, arrays = 'replace' } = options;
+
+  async function loadWithSources(): Promise<LayeredResult<T>> {
+    let merged: unknown = {};
+    const loaded: string[] = [];
+    const sources = new Map<string, LayerSource>();
+
+    for (const layer of layers) {
+      let value: Record<string, unknown>;
+      try {
+        value = await layer.zodFile.load(layer.path);
+      } catch (error) {
+        if (isNotFound(error)) {
+          continue;
+        }
+        throw error;
+      }
+      loaded.push(layer.path);
+      // Merge the values as read, since the schema decodes them again
+      const input = loadedInput(value);
+      merged = mergeDeep(merged, input, arrays);
+      collectSources(input, [], layer.path, sources);
+    }
+
+    let data: T;
+    try {
+      data = await schema.parseAsync(merged);
+    } catch (error) {
+      let message = `Schema validation failed for merged layers: ${loaded.join(', ')}`;
+      if (error instanceof ZodError) {
+        message = `${message}\n${z.prettifyError(error)}`;
+      }
+      throw new ZodFileError(
+        'Validation',
+        message,
+        error instanceof ZodError ? error : new Error(String(error)),
+      );
+    }
+
+    return { data, loaded, sources: [...sources.values()] };
+  }
+
+  return {
+    async load() {
+      const { data } = await loadWithSources();
+      return data;
+    },
+    loadWithSources,
+  };
+}
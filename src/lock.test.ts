@@ -0,0 +1,195 @@
+import fs from 'node:fs/promises';
+
+import { Mocked, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { withLock } from './lock';
+
+vi.mock('node:fs/promises');
+const mockFsPromises = vi.mocked(fs);
+const mockFileHandle = {
+  writeFile: vi.fn(),
+  close: vi.fn(),
+} as unknown as Mocked<fs.FileHandle>;
+
+const testFile = '/tmp/zod-file-test.json';
+const testLockFile = '/tmp/zod-file-test.json.lock';
+const claimedLockFile = expect.stringMatching(
+  /^\/tmp\/zod-file-test\.json\.lock\.[0-9a-f]+$/,
+) as string;
+
+const existsError = Object.assign(new Error('File exists'), {
+  code: 'EEXIST',
+});
+
+function statWithAge(ageMs: number) {
+  return { mtimeMs: Date.now() - ageMs } as Awaited<ReturnType<typeof fs.stat>>;
+}
+
+describe('withLock', () => {
+  // Content of the lock file, as last written
+  let lockContent: string;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    lockContent = '';
+    mockFsPromises.open.mockResolvedValue(mockFileHandle);
+    mockFileHandle.writeFile.mockImplementation(async (data) => {
+      lockContent = String(data);
+    });
+    mockFsPromises.readFile.mockImplementation(async () => lockContent);
+  });
+
+  it('should create the lock file exclusively and remove it afterwards', async () => {
+    const result = await withLock(testFile, {}, async () => 'result');
+
+    expect(result).toBe('result');
+    expect(mockFsPromises.open).toHaveBeenCalledWith(testLockFile, 'wx');
+    expect(mockFileHandle.writeFile).toHaveBeenCalledWith(
+      expect.stringMatching(new RegExp(`"pid":${process.pid}.*"token":"`)),
+      'utf-8',
+    );
+    expect(mockFsPromises.rename).toHaveBeenCalledWith(
+      testLockFile,
+      claimedLockFile,
+    );
+    expect(mockFsPromises.link).not.toHaveBeenCalled();
+    expect(mockFsPromises.rm).toHaveBeenCalledWith(
+      mockFsPromises.rename.mock.calls[0]?.[1],
+      { force: true },
+    );
+  });
+
+  it('should not remove a lock that another process took over', async () => {
+    await withLock(testFile, {}, async () => {
+      lockContent = JSON.stringify({ token: 'other' });
+    });
+
+    const claimed = mockFsPromises.rename.mock.calls[0]?.[1];
+    expect(mockFsPromises.link).toHaveBeenCalledWith(claimed, testLockFile);
+    expect(mockFsPromises.rm).toHaveBeenCalledWith(claimed, { force: true });
+  });
+
+  it('should refresh the lock while the function runs', async () => {
+    await withLock(testFile, { stale: 20 }, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+
+    expect(mockFsPromises.utimes).toHaveBeenCalledWith(
+      testLockFile,
+      expect.any(Date),
+      expect.any(Date),
+    );
+  });
+
+  it('should not refresh a lock that another process took over', async () => {
+    await withLock(testFile, { stale: 20 }, async () => {
+      lockContent = JSON.stringify({ token: 'other' });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+
+    expect(mockFsPromises.utimes).not.toHaveBeenCalled();
+  });
+
+  it.each([0, -1, Number.NaN])(
+    'should reject a stale time of %d',
+    async (stale) => {
+      const fn = vi.fn();
+
+      await expect(withLock(testFile, { stale }, fn)).rejects.toThrow(
+        'Lock stale time must be positive',
+      );
+      expect(mockFsPromises.open).not.toHaveBeenCalled();
+      expect(fn).not.toHaveBeenCalled();
+    },
+  );
+
+  it('should wait until the lock is released', async () => {
+    mockFsPromises.open
+      .mockRejectedValueOnce(existsError)
+      .mockRejectedValueOnce(existsError)
+      .mockResolvedValue(mockFileHandle);
+    mockFsPromises.stat.mockResolvedValue(statWithAge(0));
+    const fn = vi.fn(async () => 'result');
+
+    await expect(withLock(testFile, { retryInterval: 1 }, fn)).resolves.toBe(
+      'result',
+    );
+    expect(mockFsPromises.open).toHaveBeenCalledTimes(3);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw Lock error when the lock is not released in time', async () => {
+    mockFsPromises.open.mockRejectedValue(existsError);
+    mockFsPromises.stat.mockResolvedValue(statWithAge(0));
+    const fn = vi.fn(async () => 'result');
+
+    await expect(
+      withLock(testFile, { timeout: 20, retryInterval: 5 }, fn),
+    ).rejects.toThrowZodFileError('Lock');
+    expect(fn).not.toHaveBeenCalled();
+    expect(mockFsPromises.rm).not.toHaveBeenCalled();
+  });
+
+  it('should remove a stale lock and take it', async () => {
+    lockContent = JSON.stringify({ token: 'stale' });
+    mockFsPromises.open
+      .mockRejectedValueOnce(existsError)
+      .mockResolvedValue(mockFileHandle);
+    mockFsPromises.stat.mockResolvedValue(statWithAge(60_000));
+
+    await withLock(testFile, { stale: 1000, retryInterval: 1 }, async () => {
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        testLockFile,
+        claimedLockFile,
+      );
+      expect(mockFsPromises.rm).toHaveBeenCalledWith(
+        mockFsPromises.rename.mock.calls[0]?.[1],
+        { force: true },
+      );
+    });
+    expect(mockFsPromises.link).not.toHaveBeenCalled();
+    expect(mockFsPromises.open).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give back a lock taken since it was found stale', async () => {
+    mockFsPromises.open
+      .mockRejectedValueOnce(existsError)
+      .mockResolvedValue(mockFileHandle);
+    mockFsPromises.stat.mockResolvedValue(statWithAge(60_000));
+    mockFsPromises.readFile
+      .mockResolvedValueOnce(JSON.stringify({ token: 'stale' }))
+      .mockResolvedValueOnce(JSON.stringify({ token: 'fresh' }));
+
+    await withLock(testFile, { stale: 1000, retryInterval: 1 }, async () => {
+      expect(mockFsPromises.link).toHaveBeenCalledWith(
+        mockFsPromises.rename.mock.calls[0]?.[1],
+        testLockFile,
+      );
+    });
+  });
+
+  it('should throw Lock error when the lock file cannot be created', async () => {
+    mockFsPromises.open.mockRejectedValue(
+      Object.assign(new Error('Permission denied'), { code: 'EACCES' }),
+    );
+
+    await expect(
+      withLock(testFile, {}, async () => 'result'),
+    ).rejects.toThrowZodFileError('Lock');
+  });
+
+  it('should release the lock and rethrow when the function throws', async () => {
+    const error = new Error('Function failed');
+
+    await expect(
+      withLock(testFile, {}, async () => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+    expect(mockFsPromises.rename).toHaveBeenCalledWith(
+      testLockFile,
+      claimedLockFile,
+    );
+    expect(mockFsPromises.link).not.toHaveBeenCalled();
+  });
+});
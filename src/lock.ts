@@ -0,0 +1,266 @@
+import { randomBytes } from 'node:crypto';
+import fs from 'node:fs/promises';
+
+import { ZodFileError } from './errors';
+
+/**
+ * Options for the advisory lock taken by `update`.
+ *
+ * @example
+ * ```typescript
+ * await store.update('./config.json', (data) => data, {
+ *   lock: { timeout: 10_000, stale: 30_000 },
+ * });
+ * ```
+ */
+export type LockOptions = {
+  /**
+   * Maximum time in milliseconds to wait for the lock before failing with
+   * a `Lock` error.
+   *
+   * @defaultValue 5000
+   */
+  timeout?: number;
+
+  /**
+   * Age in milliseconds after which an existing lock file is considered
+   * abandoned (e.g. left behind by a crashed process) and is removed. The
+   * holder of a lock refreshes it while it runs, so that long updates are
+   * not mistaken for abandoned ones. Must be positive.
+   *
+   * @defaultValue 10000
+   */
+  stale?: number;
+
+  /**
+   * Delay in milliseconds between attempts to take the lock.
+   *
+   * @defaultValue 50
+   */
+  retryInterval?: number;
+};
+
+/**
+ * Returns the path of the lock file guarding a file.
+ *
+ * @param filePath - Path to the guarded file
+ * @returns The lock file path, next to the guarded file
+ */
+export function lockPath(filePath: string): string {
+  return `${filePath}.lock`;
+}
+
+function isErrnoException(error: unknown): error is NodeJS.ErrnoException {
+  return error instanceof Error && 'code' in error;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Bounds of the delay between refreshes of a held lock, as `setInterval`
+// fires immediately for delays that are too short or too long
+const minRefreshInterval = 10;
+const maxRefreshInterval = 2 ** 31 - 1;
+
+function randomToken(): string {
+  return randomBytes(8).toString('hex');
+}
+
+/**
+ * Tries to create the lock file exclusively, holding the token of its owner.
+ *
+ * @returns true if the lock was taken, false if another lock file exists
+ */
+async function tryCreateLock(path: string, token: string): Promise<boolean> {
+  try {
+    const handle = await fs.open(path, 'wx');
+    try {
+      await handle.writeFile(
+        JSON.stringify({ pid: process.pid, createdAt: Date.now(), token }),
+        'utf-8',
+      );
+    } finally {
+      await handle.close();
+    }
+    return true;
+  } catch (error) {
+    if (isErrnoException(error) && error.code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the token of the owner of a lock file.
+ *
+ * @returns The token, or undefined if the file cannot be read or holds none
+ */
+async function readToken(path: string): Promise<string | undefined> {
+  try {
+    const content = await fs.readFile(path, 'utf-8');
+    const { token } = JSON.parse(content) as { token?: unknown };
+    return typeof token === 'string' ? token : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Removes the lock file if it still holds the given token.
+ *
+ * The lock file is first renamed to a unique name, so that a lock created
+ * by another process in the meantime is never removed: if the renamed file
+ * holds another token, it is linked back in place.
+ */
+async function removeLock(
+  path: string,
+  token: string | undefined,
+): Promise<void> {
+  const claimed = `${path}.${randomToken()}`;
+  try {
+    await fs.rename(path, claimed);
+  } catch (error) {
+    // The lock was removed in the meantime
+    if (isErrnoException(error) && error.code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+  try {
+    if ((await readToken(claimed)) !== token) {
+      try {
+        await fs.link(claimed, path);
+      } catch {
+        // Another lock was created since, which owns the file now
+      }
+    }
+  } finally {
+    await fs.rm(claimed, { force: true });
+  }
+}
+
+/**
+ * Removes the lock file if it is older than `stale` milliseconds.
+ */
+async function removeIfStale(path: string, stale: number): Promise<void> {
+  let token: string | undefined;
+  try {
+    const stats = await fs.stat(path);
+    if (Date.now() - stats.mtimeMs <= stale) {
+      return;
+    }
+    token = await readToken(path);
+  } catch (error) {
+    // The lock may have been released in the meantime
+    if (isErrnoException(error) && error.code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+  await removeLock(path, token);
+}
+
+/**
+ * Updates the modification time of a held lock file, so that it is not
+ * considered stale. A lock taken over by another process is left alone.
+ * Failures are ignored: the next refresh tries again.
+ */
+async function refreshLock(path: string, token: string): Promise<void> {
+  try {
+    if ((await readToken(path)) !== token) {
+      return;
+    }
+    const now = new Date();
+    await fs.utimes(path, now, now);
+  } catch {
+    // Best effort
+  }
+}
+
+/**
+ * Runs a function while holding an advisory lock on a file.
+ *
+ * The lock is a `<file>.lock` file created exclusively next to the target,
+ * holding a token unique to its owner, so that only the owner removes it.
+ * Cooperating processes that use the same lock file are serialized;
+ * processes that ignore it are not prevented from writing.
+ *
+ * @param filePath - Path to the file to lock
+ * @param options - Lock options
+ * @param fn - The function to run while the lock is held
+ * @returns The value returned by `fn`
+ * @throws {ZodFileError} With code `Lock` when the lock cannot be acquired or released
+ * @throws {Error} When `stale` is not positive
+ */
+export async function withLock<R>(
+  filePath: string,
+  options: LockOptions,
+  fn: () => Promise<R>,
+): Promise<R> {
+  const { timeout = 5000, stale = 10_000, retryInterval = 50 } = options;
+  if (!(stale > 0)) {
+    throw new Error(`Lock stale time must be positive, got ${stale}`);
+  }
+  const path = lockPath(filePath);
+  const token = randomToken();
+  const deadline = Date.now() + timeout;
+
+  for (;;) {
+    let acquired: boolean;
+    try {
+      acquired = await tryCreateLock(path, token);
+      if (!acquired) {
+        await removeIfStale(path, stale);
+      }
+    } catch (error) {
+      throw new ZodFileError(
+        'Lock',
+        `Failed to acquire lock for file: ${filePath}`,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+    if (acquired) {
+      break;
+    }
+    if (Date.now() >= deadline) {
+      throw new ZodFileError(
+        'Lock',
+        `Timed out after ${timeout}ms waiting for lock on file: ${filePath}. Remove ${path} if no other process is using it.`,
+      );
+    }
+    await sleep(retryInterval);
+  }
+
+  const refresh = setInterval(
+    () => void refreshLock(path, token),
+    Math.min(Math.max(stale / 2, minRefreshInterval), maxRefreshInterval),
+  );
+  refresh.unref();
+
+  let result: R;
+  try {
+    result = await fn();
+  } catch (error) {
+    clearInterval(refresh);
+    try {
+      await removeLock(path, token);
+    } catch {
+      // Report the original failure rather than the release failure
+    }
+    throw error;
+  }
+
+  clearInterval(refresh);
+  try {
+    await removeLock(path, token);
+  } catch (error) {
+    throw new ZodFileError(
+      'Lock',
+      `Failed to release lock for file: ${filePath}`,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+  return result;
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { mergeDeep } from './merge';
+
+describe('mergeDeep', () => {
+  it('should merge nested objects', () => {
+    expect(
+      mergeDeep(
+        { theme: 'light', editor: { fontSize: 12, tabSize: 2 } },
+        { editor: { fontSize: 14 }, extra: true },
+      ),
+    ).toEqual({
+      theme: 'light',
+      editor: { fontSize: 14, tabSize: 2 },
+      extra: true,
+    });
+  });
+
+  it('should keep base values for undefined values', () => {
+    expect(mergeDeep({ a: 1 }, { a: undefined })).toEqual({ a: 1 });
+    expect(mergeDeep({ a: 1 }, undefined)).toEqual({ a: 1 });
+  });
+
+  it('should replace other values, including null', () => {
+    expect(mergeDeep({ a: { b: 1 } }, { a: null })).toEqual({ a: null });
+    expect(mergeDeep({ a: { b: 1 } }, { a: 'text' })).toEqual({ a: 'text' });
+  });
+
+  it('should replace arrays by default', () => {
+    expect(mergeDeep({ tags: ['a', 'b'] }, { tags: ['c'] })).toEqual({
+      tags: ['c'],
+    });
+  });
+
+  it('should concatenate arrays with the concat strategy', () => {
+    expect(mergeDeep({ tags: ['a', 'b'] }, { tags: ['c'] }, 'concat')).toEqual({
+      tags: ['a', 'b', 'c'],
+    });
+  });
+
+  it('should skip items of the base array with the concat strategy', () => {
+    expect(
+      mergeDeep({ tags: ['a', { b: 1 }] }, { tags: [{ b: 1 }, 'c'] }, 'concat'),
+    ).toEqual({ tags: ['a', { b: 1 }, 'c'] });
+  });
+
+  it('should not modify its inputs', () => {
+    const base = { editor: { fontSize: 12 } };
+
+    mergeDeep(base, { editor: { fontSize: 14 } });
+
+    expect(base).toEqual({ editor: { fontSize: 12 } });
+  });
+
+  it('should not let keys change the prototype', () => {
+    const merged = mergeDeep(
+      {},
+      JSON.parse('{"__proto__": {"polluted": true}}'),
+    ) as Record<string, unknown>;
+
+    expect(Object.getPrototypeOf(merged)).toBe(Object.prototype);
+    expect(merged.__proto__).toEqual({ polluted: true });
+  });
+});
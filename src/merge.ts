@@ -0,0 +1,53 @@
+import { isEqual, isPlainObject } from './patch';
+
+/**
+ * How arrays are merged: `'replace'` keeps the array of the overriding
+ * value, `'concat'` appends the items of the overriding array that the base
+ * array does not already hold.
+ */
+export type ArrayMergeStrategy = 'replace' | 'concat';
+
+/**
+ * Deeply merges a value over a base value.
+ *
+ * Plain objects are merged key by key, arrays are merged with the given
+ * strategy, and any other value replaces the base value. Undefined values
+ * keep the base value.
+ *
+ * @param base - The base value, e.g. the defaults
+ * @param override - The value merged over the base
+ * @param arrays - How arrays are merged
+ * @returns The merged value, sharing no objects or arrays with the inputs that it changed
+ */
+export function mergeDeep(
+  base: unknown,
+  override: unknown,
+  arrays: ArrayMergeStrategy = 'replace',
+): unknown {
+  if (override === undefined) {
+    return base;
+  }
+  if (isPlainObject(base) && isPlainObject(override)) {
+    const result: Record<string, unknown> = { ...base };
+    for (const key of Object.keys(override)) {
+      const baseValue = Object.hasOwn(base, key) ? base[key] : undefined;
+      // Define keys so that `__proto__` cannot change the prototype
+      Object.defineProperty(result, key, {
+        value: mergeDeep(baseValue, override[key], arrays),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+  if (arrays === 'concat' && Array.isArray(base) && Array.isArray(override)) {
+    // Skip items of the base array, so that merging a merged array again over
+    // the same base does not repeat them
+    const added = (override as unknown[]).filter(
+      (item) => !base.some((baseItem) => isEqual(baseItem, item)),
+    );
+    return [...(base as unknown[]), ...added];
+  }
+  return override;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+
+import { migrations } from './migrations';
+import { type Serializer, createZodFile } from './persistence';
+
+const SettingsV1 = z.object({ theme: z.string() });
+const SettingsV2 = z.object({ theme: z.enum(['light', 'dark']) });
+const SettingsV3 = z.object({
+  theme: z.enum(['light', 'dark']),
+  fontSize: z.number(),
+});
+
+const serializer: Serializer = {
+  formatName: 'Test',
+  parse: vi.fn(),
+  stringify: vi.fn(),
+};
+
+describe('migrations', () => {
+  it('should build an empty chain from a single schema', () => {
+    expect(migrations(SettingsV1).build()).toEqual([]);
+  });
+
+  it('should number steps sequentially from version 1', () => {
+    const migrateV1 = (v1: z.infer<typeof SettingsV1>) => ({
+      theme: v1.theme === 'dark' ? ('dark' as const) : ('light' as const),
+    });
+    const migrateV2 = (v2: z.infer<typeof SettingsV2>) => ({
+      ...v2,
+      fontSize: 14,
+    });
+    const downV2 = ({ theme }: z.infer<typeof SettingsV3>) => ({ theme });
+
+    const steps = migrations(SettingsV1)
+      .step(SettingsV2, migrateV1)
+      .step(SettingsV3, migrateV2, downV2)
+      .build();
+
+    expect(steps).toEqual([
+      {
+        version: 1,
+        schema: SettingsV1,
+        migrate: migrateV1,
+        down: undefined,
+      },
+      { version: 2, schema: SettingsV2, migrate: migrateV2, down: downV2 },
+    ]);
+  });
+
+  it('should not share steps between builders', () => {
+    const base = migrations(SettingsV1);
+    const chain = base.step(SettingsV2, () => ({ theme: 'light' as const }));
+
+    expect(base.build()).toHaveLength(0);
+    expect(chain.build()).toHaveLength(1);
+  });
+
+  it('should be accepted by createZodFile', () => {
+    const store = createZodFile(
+      {
+        version: 3 as const,
+        schema: SettingsV3,
+        migrations: migrations(SettingsV1)
+          .step(SettingsV2, (v1) => ({
+            theme: v1.theme === 'dark' ? 'dark' : 'light',
+          }))
+          .step(SettingsV3, (v2) => ({ ...v2, fontSize: 14 }))
+          .build(),
+      },
+      serializer,
+    );
+
+    expect(store.load).toBeTypeOf('function');
+  });
+
+  it('should reject mismatched types and versions at compile time', () => {
+    expect(() => {
+      migrations(SettingsV1).step(SettingsV2, (v1) => ({
+        // @ts-expect-error theme must be 'light' or 'dark'
+        theme: v1.theme,
+      }));
+
+      createZodFile(
+        {
+          version: 3 as const,
+          schema: SettingsV3,
+          // @ts-expect-error the chain stops at SettingsV2
+          migrations: migrations(SettingsV1)
+            .step(SettingsV2, () => ({ theme: 'light' as const }))
+            .build(),
+        },
+        serializer,
+      );
+    }).toThrow(/migration/i);
+  });
+});
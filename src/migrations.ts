@@ -0,0 +1,116 @@
+import { type z } from 'zod';
+
+import { type MigrationStep } from './persistence';
+
+/**
+ * An array of migration steps built by {@link migrations}.
+ *
+ * Carries the type produced by the last step and the resulting schema
+ * version, so that `createZodFile` can check them against its `schema` and
+ * `version` options. The `~types` property only exists at the type level.
+ *
+ * @typeParam T - The data type produced by the last migration step
+ * @typeParam V - The schema version reached by the chain
+ */
+export type MigrationChain<T, V extends number> = MigrationStep[] & {
+  readonly '~types'?: { output: T; version: V };
+};
+
+/**
+ * A builder for a type-checked chain of migration steps.
+ *
+ * Each step's `migrate` function receives the data validated by the previous
+ * schema, and must return data for the new schema. Version numbers are
+ * assigned automatically, starting from 1.
+ *
+ * @typeParam T - The data type of the latest version in the chain
+ * @typeParam TVersions - A tuple whose length is the latest version number
+ */
+export type MigrationChainBuilder<T, TVersions extends unknown[]> = {
+  /**
+   * Adds a migration step to a new schema version.
+   *
+   * @param schema - The schema of the new version
+   * @param migrate - Transforms data from the previous version to the new version
+   * @param down - Optionally transforms data from the new version back to the previous version
+   * @returns A builder for the chain extended with the new version
+   */
+  step<TNext, const TNextInput>(
+    schema: z.ZodType<TNext, TNextInput>,
+    migrate: (data: T) => NoInfer<TNextInput> | Promise<NoInfer<TNextInput>>,
+    down?: (data: TNext) => T | Promise<T>,
+  ): MigrationChainBuilder<TNext, [...TVersions, unknown]>;
+
+  /**
+   * Returns the migration steps, to be passed as the `migrations` option.
+   *
+   * The last schema passed to the builder is the current schema: pass it as
+   * the `schema` option, and the number of schemas as the `version` option.
+   *
+   * @returns The migration steps
+   */
+  build(): MigrationChain<T, TVersions['length']>;
+};
+
+function createBuilder(
+  schema: z.ZodType,
+  steps: MigrationStep[],
+): MigrationChainBuilder<any, any> {
+  return {
+    step(next, migrate, down) {
+      const step: MigrationStep = {
+        version: steps.length + 1,
+        schema,
+        migrate,
+        down,
+      };
+      return createBuilder(next, [...steps, step]);
+    },
+    build() {
+      return [...steps];
+    },
+  };
+}
+
+/**
+ * Starts a type-checked chain of migration steps from the first schema
+ * version.
+ *
+ * Unlike a hand-written `MigrationStep[]`, the chain's types thread each
+ * step's output into the next step, and `createZodFile` checks that the last
+ * step produces the current schema's type and version.
+ *
+ * @typeParam T - The data type of version 1
+ * @param schema - The schema of version 1
+ * @returns A builder to add migration steps to
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ * import { migrations } from 'zod-file';
+ * import { createZodJSON } from 'zod-file/json';
+ *
+ * const SettingsV1 = z.object({ theme: z.string() });
+ * const SettingsV2 = z.object({ theme: z.enum(['light', 'dark']) });
+ * const SettingsV3 = z.object({
+ *   theme: z.enum(['light', 'dark']),
+ *   fontSize: z.number(),
+ * });
+ *
+ * const settings = createZodJSON({
+ *   version: 3 as const,
+ *   schema: SettingsV3,
+ *   migrations: migrations(SettingsV1)
+ *     .step(SettingsV2, (v1) => ({
+ *       theme: v1.theme === 'dark' ? 'dark' : 'light',
+ *     }))
+ *     .step(SettingsV3, (v2) => ({ ...v2, fontSize: 14 }))
+ *     .build(),
+ * });
+ * ```
+ */
+export function migrations<T>(
+  schema: z.ZodType<T>,
+): MigrationChainBuilder<T, [unknown]> {
+  return createBuilder(schema, []);
+}
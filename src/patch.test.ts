@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+
+import { withFields } from './patch';
+
+describe('withFields', () => {
+  it('should set values at paths without changing the data', () => {
+    const data = { a: { b: 1 } };
+
+    expect(
+      withFields(data, [
+        { path: ['a', 'c'], value: 2 },
+        { path: ['d'], value: 3 },
+      ]),
+    ).toEqual({ a: { b: 1, c: 2 }, d: 3 });
+    expect(data).toEqual({ a: { b: 1 } });
+  });
+
+  it('should set values in arrays', () => {
+    expect(withFields({ a: [1, 2] }, [{ path: ['a', '1'], value: 3 }])).toEqual(
+      { a: [1, 3] },
+    );
+  });
+});
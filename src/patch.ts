@@ -0,0 +1,171 @@
+/**
+ * A replacement of a range of lines in a file.
+ */
+export type LineEdit = {
+  /**
+   * Index of the first replaced line.
+   */
+  start: number;
+
+  /**
+   * Index after the last replaced line. Equal to `start` for an insertion.
+   */
+  end: number;
+
+  /**
+   * The replacement lines.
+   */
+  lines: string[];
+
+  /**
+   * Nesting depth of the edited value. Of two insertions at the same line,
+   * the deeper one comes first.
+   */
+  depth: number;
+};
+
+/**
+ * A value at a path of some data.
+ */
+export type FieldValue = {
+  /**
+   * Keys leading to the value from the root of the data.
+   */
+  path: string[];
+
+  /**
+   * The value.
+   */
+  value: unknown;
+};
+
+/**
+ * Whether a value is a plain object, as opposed to an array, a date or
+ * another class instance.
+ */
+export function isPlainObject(
+  value: unknown,
+): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value) as unknown;
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Returns the keys of an object whose value is defined, as serializers skip
+ * undefined values.
+ */
+export function definedKeys(value: Record<string, unknown>): string[] {
+  return Object.keys(value).filter((key) => value[key] !== undefined);
+}
+
+/**
+ * Whether a path of keys starts with another.
+ */
+export function startsWith(path: string[], prefix: string[]): boolean {
+  return prefix.every((key, i) => path[i] === key);
+}
+
+/**
+ * Whether two paths of keys are equal.
+ */
+export function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && startsWith(a, b);
+}
+
+/**
+ * Deeply compares two parsed or encoded values.
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = definedKeys(a);
+    return (
+      keys.length === definedKeys(b).length &&
+      keys.every((key) => isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Applies non-overlapping edits to the lines of a file.
+ *
+ * @param lines - The lines of the file
+ * @param edits - The edits to apply
+ * @returns The edited lines
+ */
+export function applyEdits(lines: string[], edits: LineEdit[]): string[] {
+  const result = [...lines];
+  // Apply from the end of the file so that earlier indices stay valid
+  const sorted = [...edits].sort((a, b) => {
+    if (a.start !== b.start) {
+      return b.start - a.start;
+    }
+    if (a.end !== b.end) {
+      return b.end - a.end;
+    }
+    return a.depth - b.depth;
+  });
+  for (const edit of sorted) {
+    result.splice(edit.start, edit.end - edit.start, ...edit.lines);
+  }
+  return result;
+}
+
+/**
+ * Returns the value at a path of some data.
+ */
+export function valueAt(data: unknown, keys: string[]): unknown {
+  let value = data;
+  for (const key of keys) {
+    if (Array.isArray(value) || isPlainObject(value)) {
+      value = Object.hasOwn(value, key)
+        ? (value as Record<string, unknown>)[key]
+        : undefined;
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+/**
+ * Returns a copy of data with values set at some paths, creating the
+ * objects on the way.
+ *
+ * @param data - The data to copy
+ * @param fields - The values to set, with their paths
+ * @returns The data with the values set
+ */
+export function withFields(data: unknown, fields: FieldValue[]): unknown {
+  let result = data;
+  for (const { path, value } of fields) {
+    result = setPath(result, path, value);
+  }
+  return result;
+}
+
+function setPath(data: unknown, path: string[], value: unknown): unknown {
+  if (path.length === 0) {
+    return value;
+  }
+  const [key, ...rest] = path;
+  if (Array.isArray(data)) {
+    const array = [...(data as unknown[])];
+    array[Number(key)] = setPath(array[Number(key)], rest, value);
+    return array;
+  }
+  const object = isPlainObject(data) ? data : {};
+  return { ...object, [key]: setPath(object[key], rest, value) };
+}
@@ -1,3 +1,5 @@
+import { EventEmitter } from 'node:events';
+import fsSync from 'node:fs';
 import fs from 'node:fs/promises';
 
 import { Mocked, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -10,8 +12,14 @@ import {
   createZodFile,
 } from './persistence';
 
+vi.mock('node:fs');
 vi.mock('node:fs/promises');
 const mockFsPromises = vi.mocked(fs);
+const mockFileHandle = {
+  writeFile: vi.fn(),
+  sync: vi.fn(),
+  close: vi.fn(),
+} as unknown as fs.FileHandle;
 
 /**
  * Simple serializer for testing.
@@ -32,6 +40,8 @@ const stringToBool = z.codec(z.string(), z.boolean(), {
 describe('createZodFile', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    mockFsPromises.open.mockResolvedValue(mockFileHandle);
+    mockFsPromises.realpath.mockRejectedValue(new Error('ENOENT'));
   });
 
   describe('basic load and save', () => {
@@ -50,10 +60,14 @@ describe('createZodFile', () => {
 
       expect(mockSerializer.stringify).toHaveBeenCalledWith(data, false);
       expect(mockFsPromises.writeFile).toHaveBeenCalledWith(
-        testFile,
+        expect.stringMatching(/^\/tmp\/\.zod-file-test\.json\..*\.tmp$/),
         serializedOutput,
         'utf-8',
       );
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        mockFsPromises.writeFile.mock.calls[0]?.[0],
+        testFile,
+      );
     });
 
     it('should load data successfully', async () => {
@@ -246,159 +260,2495 @@ describe('createZodFile', () => {
     });
   });
 
-  describe('versioning', () => {
-    it('should include _version field when version is configured', async () => {
-      const schema = z.object({
-        theme: z.string(),
+  describe('atomic option', () => {
+    it('should flush the temporary file before renaming it', async () => {
+      const schema = z.object({ name: z.string() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      await store.save({ name: 'Alice' }, testFile);
+
+      expect(mockFileHandle.sync).toHaveBeenCalled();
+      expect(mockFsPromises.rename).toHaveBeenCalledTimes(1);
+      expect(
+        vi.mocked(mockFileHandle.sync).mock.invocationCallOrder[0],
+      ).toBeLessThan(mockFsPromises.rename.mock.invocationCallOrder[0]);
+    });
+
+    it('should write the file in place when atomic is false', async () => {
+      const schema = z.object({ name: z.string() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      mockSerializer.stringify.mockReturnValue('<serialized-in-place-1>');
+      await store.save({ name: 'Alice' }, testFile, { atomic: false });
+
+      expect(mockFsPromises.writeFile).toHaveBeenCalledWith(
+        testFile,
+        '<serialized-in-place-1>',
+        'utf-8',
+      );
+      expect(mockFsPromises.rename).not.toHaveBeenCalled();
+    });
+
+    it('should throw FileWrite and remove the temporary file when rename fails', async () => {
+      const schema = z.object({ name: z.string() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      mockFsPromises.rename.mockRejectedValue(new Error('EXDEV'));
+
+      await expect(
+        store.save({ name: 'Alice' }, testFile),
+      ).rejects.toThrowZodFileError('FileWrite');
+      expect(mockFsPromises.rm).toHaveBeenCalledWith(
+        mockFsPromises.writeFile.mock.calls[0]?.[0],
+        { force: true },
+      );
+    });
+  });
+
+  describe('preserveFormatting option', () => {
+    const patch = vi.fn<NonNullable<Serializer['patch']>>();
+    const patchingSerializer = {
+      formatName: 'Test',
+      parse: vi.fn<Serializer['parse']>(),
+      stringify: vi.fn<Serializer['stringify']>(),
+      patch,
+    };
+    const schema = z.object({ name: z.string() });
+
+    it('should patch the current content of the file', async () => {
+      const store = createZodFile(
+        { schema, preserveFormatting: true },
+        patchingSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<loaded-content>');
+      patchingSerializer.parse.mockReturnValue({ name: 'Alice' });
+      patch.mockReturnValue('<patched-content>');
+
+      await store.load(testFile);
+      mockFsPromises.readFile.mockResolvedValue('<changed-content>');
+      await store.save({ name: 'Bob' }, testFile);
+
+      expect(patch).toHaveBeenCalledWith('<changed-content>', { name: 'Bob' });
+      expect(patchingSerializer.stringify).not.toHaveBeenCalled();
+      expect(mockFsPromises.writeFile).toHaveBeenCalledWith(
+        expect.any(String),
+        '<patched-content>',
+        'utf-8',
+      );
+    });
+
+    it('should read the file again on every save', async () => {
+      const store = createZodFile(
+        { schema, preserveFormatting: true },
+        patchingSerializer,
+      );
+      mockFsPromises.readFile
+        .mockResolvedValueOnce('<first-content>')
+        .mockResolvedValueOnce('<second-content>');
+      patch.mockReturnValue('<patched-content>');
+
+      await store.save({ name: 'Alice' }, testFile);
+      await store.save({ name: 'Bob' }, testFile);
+
+      expect(patch).toHaveBeenNthCalledWith(1, '<first-content>', {
+        name: 'Alice',
+      });
+      expect(patch).toHaveBeenNthCalledWith(2, '<second-content>', {
+        name: 'Bob',
       });
+    });
 
+    it('should stringify when the file does not exist', async () => {
       const store = createZodFile(
-        { schema, version: 1 as const },
-        mockSerializer,
+        { schema, preserveFormatting: true },
+        patchingSerializer,
+      );
+      mockFsPromises.readFile.mockRejectedValue(
+        Object.assign(new Error('File not found'), { code: 'ENOENT' }),
       );
+      patchingSerializer.stringify.mockReturnValue('<stringified>');
 
-      await store.save({ theme: 'dark' }, testFile);
+      await store.save({ name: 'Alice' }, testFile);
 
-      expect(mockSerializer.stringify).toHaveBeenCalledWith(
-        { _version: 1, theme: 'dark' },
+      expect(patch).not.toHaveBeenCalled();
+      expect(patchingSerializer.stringify).toHaveBeenCalledWith(
+        { name: 'Alice' },
         false,
       );
     });
 
-    it('should not include _version field when version is not configured', async () => {
-      const schema = z.object({
-        theme: z.string(),
+    it('should stringify when the file cannot be patched', async () => {
+      const store = createZodFile(
+        { schema, preserveFormatting: true },
+        patchingSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      patch.mockReturnValue(undefined);
+      patchingSerializer.stringify.mockReturnValue('<stringified>');
+
+      await store.save({ name: 'Alice' }, testFile);
+
+      expect(mockFsPromises.writeFile).toHaveBeenCalledWith(
+        expect.any(String),
+        '<stringified>',
+        'utf-8',
+      );
+    });
+
+    it('should stringify compact saves', async () => {
+      const store = createZodFile(
+        { schema, preserveFormatting: true },
+        patchingSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+
+      await store.save({ name: 'Alice' }, testFile, { compact: true });
+
+      expect(patch).not.toHaveBeenCalled();
+      expect(patchingSerializer.stringify).toHaveBeenCalledWith(
+        { name: 'Alice' },
+        true,
+      );
+    });
+
+    it('should not patch by default', async () => {
+      const store = createZodFile({ schema }, patchingSerializer);
+
+      await store.save({ name: 'Alice' }, testFile);
+
+      expect(mockFsPromises.readFile).not.toHaveBeenCalled();
+      expect(patch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('annotate option', () => {
+    const annotate = vi.fn<NonNullable<Serializer['annotate']>>();
+    const annotatingSerializer = {
+      formatName: 'Test',
+      parse: vi.fn<Serializer['parse']>(),
+      stringify: vi.fn<Serializer['stringify']>(),
+      annotate,
+    };
+    const schema = z.object({
+      theme: z.enum(['light', 'dark']).describe('Color theme'),
+    });
+
+    it('should annotate the saved content with the schema', async () => {
+      const store = createZodFile({ schema }, annotatingSerializer);
+      annotatingSerializer.stringify.mockReturnValue('<stringified>');
+      annotate.mockReturnValue('<annotated>');
+
+      await store.save({ theme: 'dark' }, testFile, { annotate: true });
+
+      expect(annotate).toHaveBeenCalledWith('<stringified>', [
+        {
+          path: ['theme'],
+          lines: ['Color theme', 'Allowed values: "light", "dark"'],
+        },
+      ]);
+      expect(mockFsPromises.writeFile).toHaveBeenCalledWith(
+        expect.any(String),
+        '<annotated>',
+        'utf-8',
+      );
+    });
+
+    it('should annotate the data inside the version envelope', async () => {
+      const store = createZodFile(
+        {
+          schema,
+          version: 1 as const,
+          envelope: { type: 'meta', dataField: 'settings' },
+        },
+        annotatingSerializer,
+      );
+      annotate.mockReturnValue('<annotated>');
+
+      await store.save({ theme: 'dark' }, testFile, { annotate: true });
+
+      expect(annotate).toHaveBeenCalledWith(undefined, [
+        expect.objectContaining({ path: ['settings', 'theme'] }),
+      ]);
+    });
+
+    it('should annotate with the schema of the saved version', async () => {
+      const SettingsV1 = z.object({ color: z.string().describe('Old color') });
+      const store = createZodFile(
+        {
+          schema,
+          version: 2 as const,
+          migrations: [
+            {
+              version: 1,
+              schema: SettingsV1,
+              migrate: () => ({ theme: 'light' }),
+              down: (v2: { theme: string }) => ({ color: v2.theme }),
+            },
+          ],
+        },
+        annotatingSerializer,
+      );
+      annotate.mockReturnValue('<annotated>');
+
+      await store.save({ theme: 'dark' }, testFile, {
+        annotate: true,
+        version: 1,
       });
 
-      const store = createZodFile({ schema }, mockSerializer);
+      expect(annotate).toHaveBeenCalledWith(undefined, [
+        { path: ['color'], lines: ['Old color'] },
+      ]);
+    });
+
+    it('should not annotate by default', async () => {
+      const store = createZodFile({ schema }, annotatingSerializer);
 
       await store.save({ theme: 'dark' }, testFile);
 
+      expect(annotate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('init', () => {
+    const notFoundError = Object.assign(new Error('File not found'), {
+      code: 'ENOENT',
+    });
+
+    it('should write the default value', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, default: { theme: 'light' } },
+        mockSerializer,
+      );
+      mockFsPromises.access.mockRejectedValue(notFoundError);
+      mockSerializer.stringify.mockReturnValue('<stringified>');
+
+      await expect(store.init(testFile)).resolves.toEqual({ theme: 'light' });
+
       expect(mockSerializer.stringify).toHaveBeenCalledWith(
-        { theme: 'dark' },
+        { theme: 'light' },
         false,
       );
+      expect(mockFsPromises.link).toHaveBeenCalledWith(
+        expect.any(String),
+        testFile,
+      );
+      expect(mockFsPromises.rename).not.toHaveBeenCalled();
     });
 
-    it('should load versioned file without migrations', async () => {
+    it('should use the schema defaults without a default value', async () => {
       const schema = z.object({
-        theme: z.string(),
+        theme: z.string().default('light'),
+        editor: z.object({ fontSize: z.number().default(14) }),
       });
+      const store = createZodFile({ schema, version: 2 }, mockSerializer);
+      mockFsPromises.access.mockRejectedValue(notFoundError);
+      mockSerializer.stringify.mockReturnValue('<stringified>');
+
+      await expect(store.init(testFile)).resolves.toEqual({
+        theme: 'light',
+        editor: { fontSize: 14 },
+      });
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { _version: 2, theme: 'light', editor: { fontSize: 14 } },
+        false,
+      );
+    });
+
+    it('should throw Validation when a required field has no default', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile({ schema }, mockSerializer);
+      mockFsPromises.access.mockRejectedValue(notFoundError);
+
+      await expect(store.init(testFile)).rejects.toThrowZodFileError(
+        'Validation',
+      );
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
+    });
 
+    it('should refuse to overwrite an existing file', async () => {
+      const schema = z.object({ theme: z.string() });
       const store = createZodFile(
-        { schema, version: 1 as const },
+        { schema, default: { theme: 'light' } },
         mockSerializer,
       );
+      mockFsPromises.access.mockResolvedValue(undefined);
 
-      mockFsPromises.readFile.mockResolvedValue('<file-content-versioned-1>');
-      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 'dark' });
+      await expect(store.init(testFile)).rejects.toThrowZodFileError(
+        'FileExists',
+      );
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
+    });
 
-      const loaded = await store.load(testFile);
+    it('should refuse to overwrite a file created while initializing', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, default: { theme: 'light' } },
+        mockSerializer,
+      );
+      mockFsPromises.access.mockRejectedValue(notFoundError);
+      mockFsPromises.link.mockRejectedValue(
+        Object.assign(new Error('File exists'), { code: 'EEXIST' }),
+      );
+      mockSerializer.stringify.mockReturnValue('<stringified>');
 
-      expect(loaded.theme).toBe('dark');
+      await expect(store.init(testFile)).rejects.toThrow(
+        new ZodFileError('FileExists', `File already exists: ${testFile}`),
+      );
+      expect(mockFsPromises.rm).toHaveBeenCalledWith(
+        mockFsPromises.writeFile.mock.calls[0]?.[0],
+        { force: true },
+      );
     });
 
-    it('should throw when _version field is missing in versioned mode', async () => {
-      const schema = z.object({
-        theme: z.string(),
-      });
+    it('should create the file exclusively when atomic is false', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, default: { theme: 'light' } },
+        mockSerializer,
+      );
+      mockFsPromises.access.mockRejectedValue(notFoundError);
+      mockFsPromises.writeFile.mockRejectedValue(
+        Object.assign(new Error('File exists'), { code: 'EEXIST' }),
+      );
+      mockSerializer.stringify.mockReturnValue('<stringified>');
+
+      await expect(
+        store.init(testFile, { atomic: false }),
+      ).rejects.toThrowZodFileError('FileExists');
+      expect(mockFsPromises.writeFile).toHaveBeenCalledWith(
+        testFile,
+        '<stringified>',
+        { encoding: 'utf-8', flag: 'wx' },
+      );
+    });
 
+    it('should overwrite an existing file when asked', async () => {
+      const schema = z.object({ theme: z.string() });
       const store = createZodFile(
-        { schema, version: 1 as const },
+        { schema, default: { theme: 'light' } },
         mockSerializer,
       );
+      mockSerializer.stringify.mockReturnValue('<stringified>');
 
-      mockFsPromises.readFile.mockResolvedValue(
-        '<file-content-version-missing-1>',
+      await store.init(testFile, { overwrite: true });
+
+      expect(mockFsPromises.access).not.toHaveBeenCalled();
+      expect(mockFsPromises.writeFile).toHaveBeenCalledTimes(1);
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        expect.any(String),
+        testFile,
       );
-      mockSerializer.parse.mockReturnValue({ theme: 'dark' });
+    });
 
-      await expect(store.load(testFile)).rejects.toThrowZodFileError(
-        'InvalidVersion',
+    it('should throw FileRead when the file cannot be checked', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, default: { theme: 'light' } },
+        mockSerializer,
+      );
+      mockFsPromises.access.mockRejectedValue(
+        Object.assign(new Error('Permission denied'), { code: 'EACCES' }),
+      );
+
+      await expect(store.init(testFile)).rejects.toThrowZodFileError(
+        'FileRead',
       );
     });
 
-    it('should throw when _version is not a number', async () => {
+    it('should comment out missing optional fields', async () => {
+      const commentOut = vi.fn<NonNullable<Serializer['commentOut']>>();
+      const commentingSerializer = {
+        formatName: 'Test',
+        parse: vi.fn<Serializer['parse']>(),
+        stringify: vi.fn<Serializer['stringify']>(),
+        commentOut,
+      };
       const schema = z.object({
-        theme: z.string(),
+        theme: z.string().default('light'),
+        proxy: z.string().optional(),
+      });
+      const store = createZodFile({ schema }, commentingSerializer);
+      mockFsPromises.access.mockRejectedValue(notFoundError);
+      commentingSerializer.stringify.mockReturnValue('<stringified>');
+      commentOut.mockReturnValue('<commented-out>');
+
+      await expect(
+        store.init(testFile, { includeOptional: true }),
+      ).resolves.toEqual({ theme: 'light' });
+
+      expect(commentingSerializer.stringify).toHaveBeenCalledWith(
+        { theme: 'light', proxy: '' },
+        false,
+      );
+      expect(commentOut).toHaveBeenCalledWith('<stringified>', [['proxy']]);
+      expect(mockFsPromises.writeFile).toHaveBeenCalledWith(
+        expect.any(String),
+        '<commented-out>',
+        'utf-8',
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should load, apply the updater and save under a lock', async () => {
+      const schema = z.object({ count: z.number() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-update-1>');
+      mockSerializer.parse.mockReturnValue({ count: 1 });
+
+      const updated = await store.update(testFile, (current) => ({
+        count: current.count + 1,
+      }));
+
+      expect(updated).toEqual({ count: 2 });
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { count: 2 },
+        false,
+      );
+      expect(mockFsPromises.open).toHaveBeenCalledWith(
+        `${testFile}.lock`,
+        'wx',
+      );
+      expect(mockFsPromises.rename).toHaveBeenLastCalledWith(
+        `${testFile}.lock`,
+        expect.stringMatching(/\.lock\.[0-9a-f]+$/),
+      );
+    });
+
+    it('should support async updaters', async () => {
+      const schema = z.object({ count: z.number() });
+      const store = createZodFile(
+        { schema, default: { count: 0 } },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockRejectedValue(new Error('File not found'));
+
+      const updated = await store.update(testFile, async (current) => {
+        await new Promise((resolve) => setImmediate(resolve));
+        return { count: current.count + 10 };
       });
 
+      expect(updated).toEqual({ count: 10 });
+    });
+
+    it('should release the lock and not save when the updater throws', async () => {
+      const schema = z.object({ count: z.number() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      mockSerializer.parse.mockReturnValue({ count: 1 });
+
+      await expect(
+        store.update(testFile, () => {
+          throw new Error('Updater failed');
+        }),
+      ).rejects.toThrow('Updater failed');
+      expect(mockSerializer.stringify).not.toHaveBeenCalled();
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        `${testFile}.lock`,
+        expect.stringMatching(/\.lock\.[0-9a-f]+$/),
+      );
+    });
+
+    it('should throw Lock error when the lock is held', async () => {
+      const schema = z.object({ count: z.number() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      mockFsPromises.open.mockRejectedValue(
+        Object.assign(new Error('File exists'), { code: 'EEXIST' }),
+      );
+      mockFsPromises.stat.mockResolvedValue({
+        mtimeMs: Date.now(),
+      } as Awaited<ReturnType<typeof fs.stat>>);
+
+      await expect(
+        store.update(testFile, (current) => current, {
+          lock: { timeout: 20, retryInterval: 5 },
+        }),
+      ).rejects.toThrowZodFileError('Lock');
+      expect(mockSerializer.parse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('watch', () => {
+    it('should report invalid files instead of falling back to the default', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, default: { theme: 'light' } },
+        mockSerializer,
+      );
+
+      const watcher = Object.assign(new EventEmitter(), { close: vi.fn() });
+      vi.mocked(fsSync.watch).mockReturnValue(
+        watcher as unknown as fsSync.FSWatcher,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content-watch-1>');
+      mockSerializer.parse.mockReturnValue({ theme: 42 });
+      const listener = vi.fn();
+      const onError = vi.fn();
+
+      const handle = store.watch(testFile, listener, { onError });
+      await vi.waitFor(() => expect(onError).toHaveBeenCalled());
+      handle.close();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(handle.current).toBeUndefined();
+      expect((onError.mock.calls[0]?.[0] as ZodFileError).code).toBe(
+        'Validation',
+      );
+    });
+  });
+
+  describe('open', () => {
+    it('should load the file into a document bound to its path', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-open-1>');
+      mockSerializer.parse.mockReturnValue({ theme: 'light' });
+
+      const doc = await store.open(testFile, { compact: true });
+      expect(doc.get()).toEqual({ theme: 'light' });
+
+      doc.set({ theme: 'dark' });
+      await doc.flush();
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { theme: 'dark' },
+        true,
+      );
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        expect.any(String),
+        testFile,
+      );
+    });
+
+    it('should throw when the initial load fails', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      mockFsPromises.readFile.mockRejectedValue(new Error('File not found'));
+
+      await expect(store.open(testFile)).rejects.toThrowZodFileError(
+        'FileRead',
+      );
+    });
+  });
+
+  describe('backups', () => {
+    it('should not back up the file by default', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      await store.save({ theme: 'dark' }, testFile);
+
+      expect(mockFsPromises.copyFile).not.toHaveBeenCalled();
+    });
+
+    it('should back up the file before overwriting it', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile({ schema, backups: 2 }, mockSerializer);
+
+      await store.save({ theme: 'dark' }, testFile);
+
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        `${testFile}.bak.1`,
+        `${testFile}.bak.2`,
+      );
+      expect(mockFsPromises.copyFile).toHaveBeenCalledWith(
+        testFile,
+        `${testFile}.bak.1`,
+      );
+      expect(mockFsPromises.copyFile.mock.invocationCallOrder[0]).toBeLessThan(
+        mockFsPromises.writeFile.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should restore from the first valid backup', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, backups: 3, default: { theme: 'light' } },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockImplementation(async (path) => {
+        return `<file-content-backup:${path as string}>`;
+      });
+      mockSerializer.parse.mockImplementation((content) => {
+        switch (content) {
+          case `<file-content-backup:${testFile}>`:
+            throw new Error('Truncated file');
+          case `<file-content-backup:${testFile}.bak.1>`:
+            return { theme: 42 };
+          default:
+            return { theme: 'dark' };
+        }
+      });
+      const onRestoreFromBackup = vi.fn();
+
+      const loaded = await store.load(testFile, {
+        restoreFromBackup: true,
+        onRestoreFromBackup,
+      });
+
+      expect(loaded).toEqual({ theme: 'dark' });
+      expect(onRestoreFromBackup).toHaveBeenCalledWith(
+        `${testFile}.bak.2`,
+        expect.any(ZodFileError),
+      );
+      expect(
+        (onRestoreFromBackup.mock.calls[0]?.[1] as ZodFileError).code,
+      ).toBe('InvalidFormat');
+    });
+
+    it('should fall back to the default when no backup is valid', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, backups: 2, default: { theme: 'light' } },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-backup-2>');
+      mockSerializer.parse.mockReturnValue({ theme: 42 });
+
+      const loaded = await store.load(testFile, { restoreFromBackup: true });
+
+      expect(loaded).toEqual({ theme: 'light' });
+      expect(mockFsPromises.readFile).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not restore missing files', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, backups: 2, default: { theme: 'light' } },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockImplementation(async (path) => {
+        if (path === testFile) {
+          throw Object.assign(new Error('File not found'), { code: 'ENOENT' });
+        }
+        return '<file-content-backup-4>';
+      });
+      mockSerializer.parse.mockReturnValue({ theme: 'dark' });
+
+      await expect(
+        store.loadWithInfo(testFile, { restoreFromBackup: true }),
+      ).resolves.toEqual(
+        expect.objectContaining({
+          status: 'default',
+          data: { theme: 'light' },
+        }),
+      );
+      expect(mockFsPromises.readFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not read backups unless restoreFromBackup is set', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile({ schema, backups: 2 }, mockSerializer);
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-backup-3>');
+      mockSerializer.parse.mockReturnValue({ theme: 42 });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'Validation',
+      );
+      expect(mockFsPromises.readFile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('onInvalidFile option', () => {
+    it('should leave invalid files in place by default', async () => {
+      const schema = z.object({ theme: z.string() });
+      const onFallback = vi.fn();
+      const store = createZodFile(
+        { schema, default: { theme: 'light' }, onFallback },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-quarantine-1>');
+      mockSerializer.parse.mockReturnValue({ theme: 42 });
+
+      await store.load(testFile);
+
+      expect(mockFsPromises.rename).not.toHaveBeenCalled();
+      expect(onFallback).toHaveBeenCalledWith(
+        expect.any(ZodFileError),
+        undefined,
+      );
+    });
+
+    it('should quarantine invalid files before returning the default', async () => {
+      const schema = z.object({ theme: z.string() });
+      const onFallback = vi.fn();
+      const store = createZodFile(
+        {
+          schema,
+          default: { theme: 'light' },
+          onInvalidFile: 'quarantine',
+          onFallback,
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-quarantine-2>');
+      mockSerializer.parse.mockImplementation(() => {
+        throw new Error('Invalid format');
+      });
+
+      const loaded = await store.load(testFile);
+
+      expect(loaded).toEqual({ theme: 'light' });
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        testFile,
+        expect.stringMatching(/^\/tmp\/zod-file-test\.json\.corrupt-/),
+      );
+      const [error, quarantinePath] = onFallback.mock.calls[0] as [
+        ZodFileError,
+        string,
+      ];
+      expect(error.code).toBe('InvalidFormat');
+      expect(quarantinePath).toBe(mockFsPromises.rename.mock.calls[0]?.[1]);
+    });
+
+    it('should not quarantine missing files', async () => {
+      const schema = z.object({ theme: z.string() });
+      const onFallback = vi.fn();
+      const store = createZodFile(
+        {
+          schema,
+          default: { theme: 'light' },
+          onInvalidFile: 'quarantine',
+          onFallback,
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockRejectedValue(new Error('File not found'));
+
+      await store.load(testFile);
+
+      expect(mockFsPromises.rename).not.toHaveBeenCalled();
+      expect((onFallback.mock.calls[0]?.[0] as ZodFileError).code).toBe(
+        'FileRead',
+      );
+    });
+
+    it('should not quarantine files when throwing', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, onInvalidFile: 'quarantine' },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-quarantine-3>');
+      mockSerializer.parse.mockReturnValue({ theme: 42 });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'Validation',
+      );
+      expect(mockFsPromises.rename).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('loadWithInfo', () => {
+    it('should report a file loaded as-is', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, version: 1 as const },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-info-1>');
+      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 'dark' });
+
+      await expect(store.loadWithInfo(testFile)).resolves.toEqual({
+        status: 'loaded',
+        data: { theme: 'dark' },
+        fromVersion: 1,
+      });
+    });
+
+    it('should report the version a file was migrated from', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: z.object({ theme: z.string(), fontSize: z.number() }),
+          migrations: [
+            {
+              version: 1,
+              schema: z.object({ theme: z.string() }),
+              migrate: (v1: { theme: string }) => ({ ...v1, fontSize: 14 }),
+            },
+          ],
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-info-2>');
+      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 'dark' });
+
+      await expect(store.loadWithInfo(testFile)).resolves.toEqual({
+        status: 'migrated',
+        data: { theme: 'dark', fontSize: 14 },
+        fromVersion: 1,
+        writtenBack: false,
+      });
+    });
+
+    it('should report the error that caused a fallback to the default', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile(
+        { schema, default: { theme: 'light' } },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-info-3>');
+      mockSerializer.parse.mockImplementation(() => {
+        throw new Error('Invalid format');
+      });
+
+      const result = await store.loadWithInfo(testFile);
+
+      expect(result.status).toBe('default');
+      expect(result.data).toEqual({ theme: 'light' });
+      expect(result.status === 'default' && result.error.code).toBe(
+        'InvalidFormat',
+      );
+    });
+
+    it('should report the backup a file was restored from', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile({ schema, backups: 1 }, mockSerializer);
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-info-4>');
+      mockSerializer.parse
+        .mockImplementationOnce(() => {
+          throw new Error('Truncated file');
+        })
+        .mockReturnValue({ theme: 'dark' });
+
+      const result = await store.loadWithInfo(testFile, {
+        restoreFromBackup: true,
+      });
+
+      expect(result).toMatchObject({
+        status: 'restored',
+        data: { theme: 'dark' },
+        backupPath: `${testFile}.bak.1`,
+        error: expect.any(ZodFileError),
+      });
+    });
+
+    it('should throw when no default is configured', async () => {
+      const schema = z.object({ theme: z.string() });
+      const store = createZodFile({ schema }, mockSerializer);
+
+      mockFsPromises.readFile.mockRejectedValue(new Error('File not found'));
+
+      await expect(store.loadWithInfo(testFile)).rejects.toThrowZodFileError(
+        'FileRead',
+      );
+    });
+  });
+
+  describe('mergeDefaults option', () => {
+    const schema = z.object({
+      theme: z.string(),
+      fontSize: z.number(),
+      editor: z.object({ tabSize: z.number(), wordWrap: z.boolean() }),
+      plugins: z.array(z.string()),
+    });
+    const defaults = {
+      theme: 'light',
+      fontSize: 14,
+      editor: { tabSize: 2, wordWrap: false },
+      plugins: ['git'],
+    };
+
+    it('should fill missing fields from the default value', async () => {
+      const store = createZodFile(
+        { schema, default: defaults, mergeDefaults: true },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({
+        theme: 'dark',
+        editor: { wordWrap: true },
+        plugins: ['lint'],
+      });
+
+      await expect(store.loadWithInfo(testFile)).resolves.toEqual({
+        status: 'loaded',
+        data: {
+          theme: 'dark',
+          fontSize: 14,
+          editor: { tabSize: 2, wordWrap: true },
+          plugins: ['lint'],
+        },
+      });
+    });
+
+    it('should concatenate arrays with the concat strategy', async () => {
+      const store = createZodFile(
+        { schema, default: defaults, mergeDefaults: { arrays: 'concat' } },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({ plugins: ['lint'] });
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        ...defaults,
+        plugins: ['git', 'lint'],
+      });
+    });
+
+    it('should not repeat default items when saving loaded data', async () => {
+      const store = createZodFile(
+        { schema, default: defaults, mergeDefaults: { arrays: 'concat' } },
+        mockSerializer,
+      );
+      let stored: unknown = { plugins: ['lint'] };
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockImplementation(() => stored);
+      mockSerializer.stringify.mockImplementation((data) => {
+        stored = data;
+        return '<serialized-output>';
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await store.update(testFile, (current) => current);
+      }
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        ...defaults,
+        plugins: ['git', 'lint'],
+      });
+    });
+
+    it('should merge after migrations', async () => {
+      const SettingsV1 = z.object({ color: z.string() });
+      const store = createZodFile(
+        {
+          schema,
+          version: 2 as const,
+          default: defaults,
+          mergeDefaults: true,
+          migrations: [
+            {
+              version: 1,
+              schema: SettingsV1,
+              migrate: (v1: { color: string }) => ({ theme: v1.color }),
+            },
+          ],
+        },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({ _version: 1, color: 'dark' });
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        ...defaults,
+        theme: 'dark',
+      });
+    });
+
+    it('should merge over the encoded default value', async () => {
+      const codecSchema = z.object({ enabled: stringToBool, name: z.string() });
+      const store = createZodFile(
+        {
+          schema: codecSchema,
+          default: { enabled: true, name: 'app' },
+          mergeDefaults: true,
+        },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({ name: 'custom' });
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        enabled: true,
+        name: 'custom',
+      });
+    });
+
+    it('should still fall back when merged data is invalid', async () => {
+      const store = createZodFile(
+        { schema, default: defaults, mergeDefaults: true },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({ fontSize: 'large' });
+
+      await expect(store.loadWithInfo(testFile)).resolves.toEqual(
+        expect.objectContaining({ status: 'default', data: defaults }),
+      );
+    });
+
+    it('should require a default value', () => {
+      expect(() =>
+        createZodFile({ schema, mergeDefaults: true }, mockSerializer),
+      ).toThrow('A default value is required when mergeDefaults is enabled');
+    });
+  });
+
+  describe('env option', () => {
+    const schema = z.object({
+      theme: z.enum(['light', 'dark']),
+      database: z.object({ host: z.string(), port: z.number() }),
+    });
+    const env = {
+      prefix: 'APP_',
+      source: { APP_DATABASE__PORT: '5433', APP_THEME: 'dark' },
+    };
+
+    it('should override loaded values', async () => {
+      const store = createZodFile({ schema, env }, mockSerializer);
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({
+        theme: 'light',
+        database: { host: 'localhost', port: 5432 },
+      });
+
+      await expect(store.loadWithInfo(testFile)).resolves.toEqual({
+        status: 'loaded',
+        data: { theme: 'dark', database: { host: 'localhost', port: 5433 } },
+      });
+    });
+
+    it('should override the default value', async () => {
+      const store = createZodFile(
+        {
+          schema,
+          env,
+          default: { theme: 'light', database: { host: 'db', port: 5432 } },
+        },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockRejectedValue(
+        Object.assign(new Error('ENOENT'), { code: 'ENOENT' }),
+      );
+
+      await expect(store.loadWithInfo(testFile)).resolves.toEqual(
+        expect.objectContaining({
+          status: 'default',
+          data: { theme: 'dark', database: { host: 'db', port: 5433 } },
+        }),
+      );
+    });
+
+    it('should not save the values of variables', async () => {
+      const store = createZodFile({ schema, env }, mockSerializer);
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({
+        theme: 'light',
+        database: { host: 'localhost', port: 5432 },
+      });
+
+      const updated = await store.update(testFile, (current) => ({
+        ...current,
+        database: { ...current.database, host: 'db' },
+      }));
+
+      expect(updated).toEqual({
+        theme: 'dark',
+        database: { host: 'db', port: 5433 },
+      });
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { theme: 'light', database: { host: 'db', port: 5432 } },
+        false,
+      );
+    });
+
+    it('should save values set over the values of variables', async () => {
+      const store = createZodFile({ schema, env }, mockSerializer);
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({
+        theme: 'light',
+        database: { host: 'localhost', port: 5432 },
+      });
+
+      await store.update(testFile, (current) => ({
+        ...current,
+        database: { ...current.database, port: 6000 },
+      }));
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { theme: 'light', database: { host: 'localhost', port: 6000 } },
+        false,
+      );
+    });
+
+    it('should ignore variables with another prefix', async () => {
+      const store = createZodFile(
+        { schema, env: { ...env, prefix: 'OTHER_' } },
+        mockSerializer,
+      );
+      const data = {
+        theme: 'light',
+        database: { host: 'localhost', port: 5432 },
+      };
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue(data);
+
+      await expect(store.load(testFile)).resolves.toEqual(data);
+    });
+
+    it('should report variables that cannot be converted', async () => {
+      const store = createZodFile(
+        {
+          schema,
+          env: { prefix: 'APP_', source: { APP_DATABASE__PORT: 'high' } },
+          default: { theme: 'light', database: { host: 'db', port: 5432 } },
+        },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({
+        theme: 'light',
+        database: { host: 'localhost', port: 5432 },
+      });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'Validation',
+      );
+      await expect(store.load(testFile)).rejects.toThrow(
+        'Invalid environment variable APP_DATABASE__PORT: expected a number, got "high"',
+      );
+    });
+
+    it('should report variables that make the data invalid', async () => {
+      const store = createZodFile(
+        {
+          schema,
+          env: { prefix: 'APP_', source: { APP_DATABASE: '{"host":"db"}' } },
+        },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({
+        theme: 'light',
+        database: { host: 'localhost', port: 5432 },
+      });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'Validation',
+      );
+      await expect(store.load(testFile)).rejects.toThrow(
+        `Schema validation failed for file: ${testFile} with environment variables APP_DATABASE`,
+      );
+    });
+
+    it('should not write overrides back with migrated data', async () => {
+      const SettingsV1 = z.object({
+        database: z.object({ host: z.string(), port: z.number() }),
+      });
+      const store = createZodFile(
+        {
+          schema,
+          env,
+          version: 2 as const,
+          writeBackMigrated: true,
+          migrations: [
+            {
+              version: 1,
+              schema: SettingsV1,
+              migrate: (v1: z.infer<typeof SettingsV1>) => ({
+                ...v1,
+                theme: 'light' as const,
+              }),
+            },
+          ],
+        },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({
+        _version: 1,
+        database: { host: 'localhost', port: 5432 },
+      });
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        theme: 'dark',
+        database: { host: 'localhost', port: 5433 },
+      });
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        {
+          _version: 2,
+          theme: 'light',
+          database: { host: 'localhost', port: 5432 },
+        },
+        false,
+      );
+    });
+
+    it('should not restore the overrides of a previous load when writing back', async () => {
+      const SettingsV1 = z.object({
+        database: z.object({ host: z.string(), port: z.number() }),
+      });
+      const source: Record<string, string> = { APP_DATABASE__PORT: '5433' };
+      const store = createZodFile(
+        {
+          schema,
+          env: { prefix: 'APP_', source },
+          version: 2 as const,
+          writeBackMigrated: true,
+          migrations: [
+            {
+              version: 1,
+              schema: SettingsV1,
+              migrate: (v1: z.infer<typeof SettingsV1>) => ({
+                ...v1,
+                theme: 'light' as const,
+              }),
+            },
+          ],
+        },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue({
+        _version: 2,
+        theme: 'light',
+        database: { host: 'localhost', port: 5432 },
+      });
+      await store.load(testFile);
+
+      delete source.APP_DATABASE__PORT;
+      mockSerializer.parse.mockReturnValue({
+        _version: 1,
+        database: { host: 'localhost', port: 5433 },
+      });
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        theme: 'light',
+        database: { host: 'localhost', port: 5433 },
+      });
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        {
+          _version: 2,
+          theme: 'light',
+          database: { host: 'localhost', port: 5433 },
+        },
+        false,
+      );
+    });
+  });
+
+  describe('interpolate option', () => {
+    const schema = z.object({
+      host: z.string(),
+      port: z.number(),
+      url: z.string(),
+    });
+    const interpolate = {
+      resolvers: { host: () => 'localhost', port: () => 8080 },
+    };
+    const file = {
+      host: '${host:}',
+      port: '${port:}',
+      url: 'http://${self:host}:${self:port}',
+    };
+
+    beforeEach(() => {
+      mockFsPromises.readFile.mockResolvedValue('<file-content>');
+      mockSerializer.parse.mockReturnValue(file);
+      mockSerializer.stringify.mockReturnValue('<serialized>');
+    });
+
+    it('should not resolve references by default', async () => {
+      const store = createZodFile(
+        { schema: z.object({ host: z.string() }) },
+        mockSerializer,
+      );
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        host: '${host:}',
+      });
+    });
+
+    it('should resolve references before validation', async () => {
+      const store = createZodFile({ schema, interpolate }, mockSerializer);
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        host: 'localhost',
+        port: 8080,
+        url: 'http://localhost:8080',
+      });
+    });
+
+    it('should save unchanged values as their references', async () => {
+      const store = createZodFile({ schema, interpolate }, mockSerializer);
+
+      const data = await store.load(testFile);
+      await store.save({ ...data, host: 'example.com' }, testFile);
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { ...file, host: 'example.com' },
+        false,
+      );
+    });
+
+    it('should throw Interpolation errors naming the key', async () => {
+      const store = createZodFile(
+        { schema, interpolate: { resolvers: {} } },
+        mockSerializer,
+      );
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'Interpolation',
+      );
+      await expect(store.load(testFile)).rejects.toThrow(
+        `Failed to resolve "\${host:}" at host in file: ${testFile}: Unknown resolver: host`,
+      );
+    });
+
+    it('should fall back to the default when a reference fails', async () => {
+      const fallback = { host: 'default', port: 80, url: 'http://default' };
+      const store = createZodFile(
+        { schema, default: fallback, interpolate: true },
+        mockSerializer,
+      );
+
+      await expect(store.loadWithInfo(testFile)).resolves.toEqual(
+        expect.objectContaining({ status: 'default', data: fallback }),
+      );
+    });
+  });
+
+  describe('includes option', () => {
+    const schema = z.object({ theme: z.string(), fontSize: z.number() });
+    const files: Record<string, string> = {
+      [testFile]: '{"$include": "./base.json", "theme": "dark"}',
+      '/tmp/base.json': '{"_version": 1, "theme": "light", "fontSize": 14}',
+    };
+
+    beforeEach(() => {
+      mockFsPromises.readFile.mockImplementation((path) =>
+        Promise.resolve(files[path as string]),
+      );
+      mockSerializer.parse.mockImplementation(
+        (content) => JSON.parse(content) as unknown,
+      );
+    });
+
+    it('should not resolve includes by default', async () => {
+      const store = createZodFile(
+        { schema: z.looseObject({ theme: z.string() }) },
+        mockSerializer,
+      );
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        $include: './base.json',
+        theme: 'dark',
+      });
+    });
+
+    it('should resolve includes before versioning and validation', async () => {
+      const store = createZodFile(
+        {
+          schema,
+          version: 2 as const,
+          includes: true,
+          migrations: [
+            {
+              version: 1,
+              schema,
+              migrate: (v1: z.infer<typeof schema>) => ({
+                ...v1,
+                fontSize: v1.fontSize + 2,
+              }),
+            },
+          ],
+        },
+        mockSerializer,
+      );
+
+      await expect(store.loadWithInfo(testFile)).resolves.toEqual(
+        expect.objectContaining({
+          status: 'migrated',
+          data: { theme: 'dark', fontSize: 16 },
+        }),
+      );
+    });
+
+    it('should save files with their includes', async () => {
+      const store = createZodFile({ schema, includes: true }, mockSerializer);
+      mockSerializer.stringify.mockReturnValue('<serialized>');
+
+      const data = await store.load(testFile);
+      await store.save({ ...data, fontSize: 16 }, testFile);
+      await store.save(data, testFile);
+
+      expect(mockSerializer.stringify).toHaveBeenNthCalledWith(
+        1,
+        { $include: './base.json', theme: 'dark', fontSize: 16 },
+        false,
+      );
+      expect(mockSerializer.stringify).toHaveBeenNthCalledWith(
+        2,
+        { $include: './base.json', theme: 'dark' },
+        false,
+      );
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalledWith(
+        '/tmp/base.json',
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    it('should throw Include errors', async () => {
+      const store = createZodFile(
+        { schema, includes: { maxDepth: 0 } },
+        mockSerializer,
+      );
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError('Include');
+    });
+
+    it('should not quarantine files whose includes are missing', async () => {
+      const store = createZodFile(
+        {
+          schema,
+          default: { theme: 'light', fontSize: 12 },
+          includes: true,
+          onInvalidFile: 'quarantine',
+        },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockImplementation((path) =>
+        path === testFile
+          ? Promise.resolve(files[testFile])
+          : Promise.reject(
+              Object.assign(new Error('File not found'), { code: 'ENOENT' }),
+            ),
+      );
+
+      await expect(store.loadWithInfo(testFile)).resolves.toEqual(
+        expect.objectContaining({
+          status: 'default',
+          error: expect.objectContaining({ code: 'Include' }) as unknown,
+          quarantinePath: undefined,
+        }),
+      );
+      expect(mockFsPromises.rename).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('writeBackMigrated option', () => {
+    const SettingsV1 = z.object({ theme: z.string() });
+    const SettingsV2 = z.object({ theme: z.string(), fontSize: z.number() });
+    const migrations = [
+      {
+        version: 1,
+        schema: SettingsV1,
+        migrate: (v1: z.infer<typeof SettingsV1>) => ({ ...v1, fontSize: 14 }),
+      },
+    ];
+
+    beforeEach(() => {
+      mockFsPromises.readFile.mockResolvedValue('<file-content-writeback-1>');
+      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 'dark' });
+    });
+
+    it('should not write migrated data back by default', async () => {
+      const store = createZodFile(
+        { version: 2 as const, schema: SettingsV2, migrations },
+        mockSerializer,
+      );
+
+      await store.load(testFile);
+
+      expect(mockSerializer.stringify).not.toHaveBeenCalled();
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should save migrated data in the current version', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations,
+          writeBackMigrated: true,
+        },
+        mockSerializer,
+      );
+
+      const result = await store.loadWithInfo(testFile);
+
+      expect(result).toMatchObject({ status: 'migrated', writtenBack: true });
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { _version: 2, theme: 'dark', fontSize: 14 },
+        false,
+      );
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        expect.any(String),
+        testFile,
+      );
+      expect(mockFsPromises.copyFile).not.toHaveBeenCalled();
+    });
+
+    it('should not write back files already at the current version', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations,
+          writeBackMigrated: true,
+        },
+        mockSerializer,
+      );
+
+      mockSerializer.parse.mockReturnValue({
+        _version: 2,
+        theme: 'dark',
+        fontSize: 12,
+      });
+      await store.load(testFile);
+
+      expect(mockSerializer.stringify).not.toHaveBeenCalled();
+    });
+
+    it('should let load options override the instance option', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations,
+          writeBackMigrated: true,
+        },
+        mockSerializer,
+      );
+
+      await store.load(testFile, { writeBackMigrated: false });
+
+      expect(mockSerializer.stringify).not.toHaveBeenCalled();
+    });
+
+    it('should keep a copy of the original file', async () => {
+      const store = createZodFile(
+        { version: 2 as const, schema: SettingsV2, migrations },
+        mockSerializer,
+      );
+
+      await store.load(testFile, {
+        writeBackMigrated: { keepOriginal: true },
+      });
+
+      expect(mockFsPromises.copyFile).toHaveBeenCalledWith(
+        testFile,
+        `${testFile}.v1`,
+      );
+      expect(mockFsPromises.copyFile.mock.invocationCallOrder[0]).toBeLessThan(
+        mockFsPromises.rename.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should return the migrated data when writing back fails', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations,
+          writeBackMigrated: true,
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.writeFile.mockRejectedValue(new Error('Read-only'));
+      const result = await store.loadWithInfo(testFile);
+
+      expect(result).toEqual({
+        status: 'migrated',
+        data: { theme: 'dark', fontSize: 14 },
+        fromVersion: 1,
+        writtenBack: false,
+      });
+    });
+  });
+
+  describe('loadSync and saveSync', () => {
+    const mockFs = vi.mocked(fsSync);
+    const SettingsV1 = z.object({ theme: z.string() });
+    const SettingsV2 = z.object({ theme: z.string(), fontSize: z.number() });
+    const migrations = [
+      {
+        version: 1,
+        schema: SettingsV1,
+        migrate: (v1: z.infer<typeof SettingsV1>) => ({ ...v1, fontSize: 14 }),
+      },
+    ];
+
+    beforeEach(() => {
+      mockFs.readFileSync.mockReturnValue('<file-content-sync>');
+      mockFs.openSync.mockReturnValue(3);
+      mockFs.realpathSync.mockImplementation(() => {
+        throw new Error('ENOENT');
+      });
+    });
+
+    it('should load and migrate a file synchronously', () => {
+      const store = createZodFile(
+        { version: 2 as const, schema: SettingsV2, migrations },
+        mockSerializer,
+      );
+      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 'dark' });
+
+      expect(store.loadSync(testFile)).toEqual({ theme: 'dark', fontSize: 14 });
+      expect(mockFs.readFileSync).toHaveBeenCalledWith(testFile, 'utf-8');
+      expect(mockSerializer.parse).toHaveBeenCalledWith('<file-content-sync>');
+    });
+
+    it('should fall back to the default value', () => {
+      const onFallback = vi.fn();
+      const store = createZodFile(
+        { schema: SettingsV1, default: { theme: 'light' }, onFallback },
+        mockSerializer,
+      );
+      mockFs.readFileSync.mockImplementation(() => {
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      });
+
+      expect(store.loadSync(testFile)).toEqual({ theme: 'light' });
+      expect(onFallback).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'FileRead' }),
+        undefined,
+      );
+      expect(() =>
+        store.loadSync(testFile, { throwOnError: true }),
+      ).toThrowZodFileError('FileRead');
+    });
+
+    it('should throw when a migration is async, even with a default', () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          default: { theme: 'light', fontSize: 12 },
+          migrations: [
+            {
+              ...migrations[0],
+              migrate: async (v1: z.infer<typeof SettingsV1>) =>
+                Promise.resolve({ ...v1, fontSize: 14 }),
+            },
+          ],
+        },
+        mockSerializer,
+      );
+      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 'dark' });
+
+      expect(() => store.loadSync(testFile)).toThrow(
+        new ZodFileError(
+          'Migration',
+          `Migration from version 1 is async in file: ${testFile}. Use the asynchronous methods instead`,
+        ),
+      );
+    });
+
+    it('should throw when the schema is async, even with a default', () => {
+      const store = createZodFile(
+        {
+          schema: SettingsV1.refine(async () => Promise.resolve(true)),
+          default: { theme: 'light' },
+        },
+        mockSerializer,
+      );
+      mockSerializer.parse.mockReturnValue({ theme: 'dark' });
+
+      expect(() => store.loadSync(testFile)).toThrowZodFileError('Validation');
+      expect(() => store.loadSync(testFile)).toThrow(
+        `Schema is async for file: ${testFile}. Use the asynchronous methods instead`,
+      );
+    });
+
+    it('should read legacy sources without saving them', () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations,
+          default: { theme: 'light', fontSize: 12 },
+          legacySources: [
+            { path: '/tmp/missing.json', serializer: mockSerializer },
+            {
+              path: '/tmp/legacy.json',
+              serializer: mockSerializer,
+              version: 1,
+            },
+          ],
+        },
+        mockSerializer,
+      );
+      mockFs.readFileSync.mockImplementation((path) => {
+        if (path === '/tmp/legacy.json') {
+          return '<legacy-content-sync>';
+        }
+        throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+      });
+      mockSerializer.parse.mockReturnValue({ theme: 'dark' });
+
+      expect(store.loadSync(testFile)).toEqual({ theme: 'dark', fontSize: 14 });
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+      expect(mockFs.renameSync).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      [{ includes: true }, 'Include', 'Includes'],
+      [{ interpolate: true }, 'Interpolation', 'References'],
+    ] as const)('should not support %j', (options, code, subject) => {
+      const store = createZodFile(
+        { schema: SettingsV1, default: { theme: 'light' }, ...options },
+        mockSerializer,
+      );
+
+      expect(() => store.loadSync(testFile)).toThrow(
+        new ZodFileError(
+          code,
+          `${subject} cannot be resolved synchronously in file: ${testFile}. Use the asynchronous methods instead`,
+        ),
+      );
+    });
+
+    it('should save a file synchronously and atomically', () => {
+      const store = createZodFile(
+        { version: 2 as const, schema: SettingsV2, migrations, backups: 1 },
+        mockSerializer,
+      );
+      mockSerializer.stringify.mockReturnValue('<serialized-sync>');
+
+      store.saveSync({ theme: 'dark', fontSize: 16 }, testFile);
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { _version: 2, theme: 'dark', fontSize: 16 },
+        false,
+      );
+      expect(mockFs.copyFileSync).toHaveBeenCalledWith(
+        testFile,
+        `${testFile}.bak.1`,
+      );
+      const tmpPath = mockFs.writeFileSync.mock.calls[0]?.[0];
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+        tmpPath,
+        '<serialized-sync>',
+        'utf-8',
+      );
+      expect(mockFs.renameSync).toHaveBeenCalledWith(tmpPath, testFile);
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should save in place when not atomic', () => {
+      const store = createZodFile({ schema: SettingsV1 }, mockSerializer);
+      mockSerializer.stringify.mockReturnValue('<serialized-sync>');
+
+      store.saveSync({ theme: 'dark' }, testFile, { atomic: false });
+
+      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
+        testFile,
+        '<serialized-sync>',
+        'utf-8',
+      );
+      expect(mockFs.renameSync).not.toHaveBeenCalled();
+    });
+
+    it('should throw when encoding is async', () => {
+      const store = createZodFile(
+        { schema: SettingsV1.refine(async () => Promise.resolve(true)) },
+        mockSerializer,
+      );
+
+      expect(() =>
+        store.saveSync({ theme: 'dark' }, testFile),
+      ).toThrowZodFileError('Encoding');
+      expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('versioning', () => {
+    it('should include _version field when version is configured', async () => {
+      const schema = z.object({
+        theme: z.string(),
+      });
+
+      const store = createZodFile(
+        { schema, version: 1 as const },
+        mockSerializer,
+      );
+
+      await store.save({ theme: 'dark' }, testFile);
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { _version: 1, theme: 'dark' },
+        false,
+      );
+    });
+
+    it('should not include _version field when version is not configured', async () => {
+      const schema = z.object({
+        theme: z.string(),
+      });
+
+      const store = createZodFile({ schema }, mockSerializer);
+
+      await store.save({ theme: 'dark' }, testFile);
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { theme: 'dark' },
+        false,
+      );
+    });
+
+    it('should load versioned file without migrations', async () => {
+      const schema = z.object({
+        theme: z.string(),
+      });
+
+      const store = createZodFile(
+        { schema, version: 1 as const },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-versioned-1>');
+      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 'dark' });
+
+      const loaded = await store.load(testFile);
+
+      expect(loaded.theme).toBe('dark');
+    });
+
+    it('should throw when _version field is missing in versioned mode', async () => {
+      const schema = z.object({
+        theme: z.string(),
+      });
+
+      const store = createZodFile(
+        { schema, version: 1 as const },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue(
+        '<file-content-version-missing-1>',
+      );
+      mockSerializer.parse.mockReturnValue({ theme: 'dark' });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'InvalidVersion',
+      );
+    });
+
+    it('should throw when _version is not a number', async () => {
+      const schema = z.object({
+        theme: z.string(),
+      });
+
+      const store = createZodFile(
+        { schema, version: 1 as const },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue(
+        '<file-content-version-string-1>',
+      );
+      mockSerializer.parse.mockReturnValue({
+        _version: 'invalid',
+        theme: 'dark',
+      });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'InvalidVersion',
+      );
+    });
+
+    it('should throw when _version is not an integer', async () => {
+      const schema = z.object({
+        theme: z.string(),
+      });
+
+      const store = createZodFile(
+        { schema, version: 1 as const },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue(
+        '<file-content-version-float-1>',
+      );
+      mockSerializer.parse.mockReturnValue({ _version: 1.5, theme: 'dark' });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'InvalidVersion',
+      );
+    });
+
+    it('should throw when _version is <= 0', async () => {
+      const schema = z.object({
+        theme: z.string(),
+      });
+
+      const store = createZodFile(
+        { schema, version: 1 as const },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue(
+        '<file-content-version-zero-1>',
+      );
+      mockSerializer.parse.mockReturnValue({ _version: 0, theme: 'dark' });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'InvalidVersion',
+      );
+    });
+
+    it('should throw when file version is greater than current version', async () => {
+      const schema = z.object({
+        theme: z.string(),
+      });
+
+      const store = createZodFile(
+        { schema, version: 1 as const },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue(
+        '<file-content-version-future-1>',
+      );
+      mockSerializer.parse.mockReturnValue({ _version: 2, theme: 'dark' });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'UnsupportedVersion',
+      );
+    });
+  });
+
+  describe('envelope option', () => {
+    const schema = z.object({ theme: z.string(), _version: z.string() });
+
+    it('should store the version in a custom field', async () => {
+      const store = createZodFile(
+        {
+          schema,
+          version: 1 as const,
+          envelope: { type: 'field', field: 'schemaVersion' },
+        },
+        mockSerializer,
+      );
+
+      await store.save({ theme: 'dark', _version: 'mine' }, testFile);
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { schemaVersion: 1, theme: 'dark', _version: 'mine' },
+        false,
+      );
+    });
+
+    it('should load the version from a custom field', async () => {
+      const store = createZodFile(
+        {
+          schema,
+          version: 1 as const,
+          envelope: { type: 'field', field: 'schemaVersion' },
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-envelope-1>');
+      mockSerializer.parse.mockReturnValue({
+        schemaVersion: 1,
+        theme: 'dark',
+        _version: 'mine',
+      });
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        theme: 'dark',
+        _version: 'mine',
+      });
+    });
+
+    it('should store the version in a metadata block', async () => {
+      const store = createZodFile(
+        {
+          schema: z.object({ theme: z.string() }),
+          version: 1 as const,
+          envelope: { type: 'meta' },
+        },
+        mockSerializer,
+      );
+
+      await store.save({ theme: 'dark' }, testFile);
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        {
+          meta: { version: 1, savedAt: expect.any(String) },
+          data: { theme: 'dark' },
+        },
+        false,
+      );
+    });
+
+    it('should load and migrate data from a metadata block', async () => {
+      const store = createZodFile(
+        {
+          schema: z.object({ theme: z.string(), fontSize: z.number() }),
+          version: 2 as const,
+          envelope: { type: 'meta' },
+          migrations: [
+            {
+              version: 1,
+              schema: z.object({ theme: z.string() }),
+              migrate: (v1: { theme: string }) => ({ ...v1, fontSize: 14 }),
+            },
+          ],
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-envelope-2>');
+      mockSerializer.parse.mockReturnValue({
+        meta: { version: 1 },
+        data: { theme: 'dark' },
+      });
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        theme: 'dark',
+        fontSize: 14,
+      });
+    });
+
+    it('should throw InvalidVersion for an invalid version in a metadata block', async () => {
+      const store = createZodFile(
+        {
+          schema: z.object({ theme: z.string() }),
+          version: 1 as const,
+          envelope: { type: 'meta' },
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-envelope-3>');
+      mockSerializer.parse.mockReturnValue({
+        meta: { version: 'one' },
+        data: { theme: 'dark' },
+      });
+
+      await expect(store.load(testFile)).rejects.toThrow(
+        'Invalid meta.version field',
+      );
+    });
+
+    it('should throw InvalidVersion for a missing header comment', async () => {
+      const store = createZodFile(
+        {
+          schema: z.object({ theme: z.string() }),
+          version: 1 as const,
+          envelope: { type: 'comment' },
+        },
+        { ...mockSerializer, commentPrefix: '#' },
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('theme: dark');
+      mockSerializer.parse.mockReturnValue({ theme: 'dark' });
+
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'InvalidVersion',
+      );
+    });
+
+    it('should throw when the format does not support comments', () => {
+      expect(() =>
+        createZodFile(
+          {
+            schema: z.object({ theme: z.string() }),
+            version: 1 as const,
+            envelope: { type: 'comment' },
+          },
+          mockSerializer,
+        ),
+      ).toThrow('requires a format that supports comments');
+    });
+  });
+
+  describe('legacyVersion option', () => {
+    const SettingsV1 = z.object({ theme: z.string() });
+    const SettingsV2 = z.object({
+      theme: z.enum(['light', 'dark']),
+      fontSize: z.number(),
+    });
+    type SettingsV1 = z.infer<typeof SettingsV1>;
+    type SettingsV2 = z.infer<typeof SettingsV2>;
+
+    const migration1: MigrationStep<1, SettingsV1, SettingsV2> = {
+      version: 1,
+      schema: SettingsV1,
+      migrate: (v1) => ({
+        theme: v1.theme === 'dark' ? 'dark' : 'light',
+        fontSize: 14,
+      }),
+    };
+
+    it('should migrate unversioned files from the legacy version', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          legacyVersion: 1,
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-legacy-1>');
+      mockSerializer.parse.mockReturnValue({ theme: 'dark' });
+
+      const result = await store.loadWithInfo(testFile);
+
+      expect(result).toEqual({
+        status: 'migrated',
+        data: { theme: 'dark', fontSize: 14 },
+        fromVersion: 1,
+        writtenBack: false,
+      });
+    });
+
+    it('should still read the version of versioned files', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          legacyVersion: 1,
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-legacy-2>');
+      mockSerializer.parse.mockReturnValue({
+        _version: 2,
+        theme: 'light',
+        fontSize: 16,
+      });
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        theme: 'light',
+        fontSize: 16,
+      });
+    });
+
+    it('should allow a migration step at version 0 for legacy files', async () => {
+      const migration0: MigrationStep<0, { colors: string }, SettingsV1> = {
+        version: 0,
+        schema: z.object({ colors: z.string() }),
+        migrate: (v0) => ({ theme: v0.colors }),
+      };
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration0, migration1],
+          legacyVersion: 0,
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-legacy-3>');
+      mockSerializer.parse.mockReturnValue({ colors: 'dark' });
+
+      await expect(store.load(testFile)).resolves.toEqual({
+        theme: 'dark',
+        fontSize: 14,
+      });
+    });
+
+    it('should reject a migration step at version 0 without a legacy version 0', () => {
+      expect(() =>
+        createZodFile(
+          {
+            version: 2 as const,
+            schema: SettingsV2,
+            migrations: [
+              { version: 0, schema: z.object({}), migrate: () => ({}) },
+              migration1,
+            ],
+            legacyVersion: 1,
+          },
+          mockSerializer,
+        ),
+      ).toThrow(/starting from version 1/);
+    });
+
+    it('should reject a legacy version out of range', () => {
+      expect(() =>
+        createZodFile(
+          {
+            version: 2 as const,
+            schema: SettingsV2,
+            migrations: [migration1],
+            legacyVersion: 3,
+          },
+          mockSerializer,
+        ),
+      ).toThrow(/Legacy version must be an integer from 0 to 2/);
+    });
+  });
+
+  describe('legacySources option', () => {
+    const legacyFile = '/tmp/zod-file-legacy.ini';
+    const legacySerializer: Mocked<Serializer> = {
+      formatName: 'INI',
+      parse: vi.fn(),
+      stringify: vi.fn(),
+    };
+    const notFoundError = Object.assign(new Error('File not found'), {
+      code: 'ENOENT',
+    });
+    const SettingsV1 = z.object({ theme: z.string() });
+    const SettingsV2 = z.object({ theme: z.string(), fontSize: z.number() });
+    const migration1: MigrationStep<
+      1,
+      z.infer<typeof SettingsV1>,
+      z.infer<typeof SettingsV2>
+    > = {
+      version: 1,
+      schema: SettingsV1,
+      migrate: (v1) => ({ ...v1, fontSize: 14 }),
+    };
+
+    function mockLegacyFile(parsed: unknown) {
+      mockFsPromises.readFile.mockImplementation((path) =>
+        path === legacyFile
+          ? Promise.resolve('<file-content-legacy-source>')
+          : Promise.reject(notFoundError),
+      );
+      legacySerializer.parse.mockReturnValue(parsed);
+    }
+
+    it('should import a legacy file when the file does not exist', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          legacySources: [
+            { path: legacyFile, serializer: legacySerializer, version: 1 },
+          ],
+        },
+        mockSerializer,
+      );
+      mockLegacyFile({ theme: 'dark' });
+      mockSerializer.stringify.mockReturnValue('<saved>');
+
+      const result = await store.loadWithInfo(testFile);
+
+      expect(result).toEqual({
+        status: 'imported',
+        data: { theme: 'dark', fontSize: 14 },
+        fromVersion: 1,
+        sourcePath: legacyFile,
+        writtenBack: true,
+      });
+      expect(legacySerializer.parse).toHaveBeenCalledWith(
+        '<file-content-legacy-source>',
+      );
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { _version: 2, theme: 'dark', fontSize: 14 },
+        false,
+      );
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        expect.any(String),
+        testFile,
+      );
+      expect(mockFsPromises.unlink).not.toHaveBeenCalled();
+    });
+
+    it('should save the references of an imported legacy file', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          interpolate: { resolvers: { home: () => '/home/me' } },
+          legacySources: [
+            { path: legacyFile, serializer: legacySerializer, version: 1 },
+          ],
+        },
+        mockSerializer,
+      );
+      mockLegacyFile({ theme: '${home:}/theme' });
+      mockSerializer.stringify.mockReturnValue('<saved>');
+
+      const data = await store.load(testFile);
+      await store.save({ ...data, fontSize: 16 }, testFile);
+
+      expect(data).toEqual({ theme: '/home/me/theme', fontSize: 14 });
+      expect(mockSerializer.stringify).toHaveBeenNthCalledWith(
+        1,
+        { _version: 2, theme: '${home:}/theme', fontSize: 14 },
+        false,
+      );
+      expect(mockSerializer.stringify).toHaveBeenNthCalledWith(
+        2,
+        { _version: 2, theme: '${home:}/theme', fontSize: 16 },
+        false,
+      );
+    });
+
+    it('should map the version of the legacy file', async () => {
       const store = createZodFile(
-        { schema, version: 1 as const },
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          legacySources: [
+            {
+              path: legacyFile,
+              serializer: legacySerializer,
+              version: (parsed) =>
+                (parsed as { schema: string }).schema === 'old' ? 1 : 2,
+            },
+          ],
+        },
         mockSerializer,
       );
+      mockLegacyFile({ schema: 'new', theme: 'dark', fontSize: 16 });
 
-      mockFsPromises.readFile.mockResolvedValue(
-        '<file-content-version-string-1>',
-      );
-      mockSerializer.parse.mockReturnValue({
-        _version: 'invalid',
+      await expect(store.load(testFile)).resolves.toEqual({
         theme: 'dark',
+        fontSize: 16,
       });
+    });
 
-      await expect(store.load(testFile)).rejects.toThrowZodFileError(
-        'InvalidVersion',
+    it('should read the version from the legacy file when not mapped', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          legacySources: [{ path: legacyFile, serializer: legacySerializer }],
+        },
+        mockSerializer,
       );
-    });
+      mockLegacyFile({ _version: 1, theme: 'dark' });
 
-    it('should throw when _version is not an integer', async () => {
-      const schema = z.object({
-        theme: z.string(),
+      await expect(store.load(testFile)).resolves.toEqual({
+        theme: 'dark',
+        fontSize: 14,
       });
+    });
 
+    it('should remove or rename the legacy file after importing it', async () => {
       const store = createZodFile(
-        { schema, version: 1 as const },
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          legacySources: [
+            {
+              path: legacyFile,
+              serializer: legacySerializer,
+              version: 1,
+              cleanup: 'rename',
+            },
+          ],
+        },
         mockSerializer,
       );
+      mockLegacyFile({ theme: 'dark' });
 
-      mockFsPromises.readFile.mockResolvedValue(
-        '<file-content-version-float-1>',
-      );
-      mockSerializer.parse.mockReturnValue({ _version: 1.5, theme: 'dark' });
+      await store.load(testFile);
 
-      await expect(store.load(testFile)).rejects.toThrowZodFileError(
-        'InvalidVersion',
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        legacyFile,
+        `${legacyFile}.migrated`,
       );
     });
 
-    it('should throw when _version is <= 0', async () => {
-      const schema = z.object({
-        theme: z.string(),
-      });
-
+    it('should keep the legacy file when the data cannot be saved', async () => {
       const store = createZodFile(
-        { schema, version: 1 as const },
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          legacySources: [
+            {
+              path: legacyFile,
+              serializer: legacySerializer,
+              version: 1,
+              cleanup: 'remove',
+            },
+          ],
+        },
         mockSerializer,
       );
+      mockLegacyFile({ theme: 'dark' });
+      mockFsPromises.writeFile.mockRejectedValue(new Error('EACCES'));
 
-      mockFsPromises.readFile.mockResolvedValue(
-        '<file-content-version-zero-1>',
-      );
-      mockSerializer.parse.mockReturnValue({ _version: 0, theme: 'dark' });
+      const result = await store.loadWithInfo(testFile);
 
-      await expect(store.load(testFile)).rejects.toThrowZodFileError(
-        'InvalidVersion',
-      );
+      expect(result).toMatchObject({ status: 'imported', writtenBack: false });
+      expect(mockFsPromises.unlink).not.toHaveBeenCalledWith(legacyFile);
     });
 
-    it('should throw when file version is greater than current version', async () => {
-      const schema = z.object({
-        theme: z.string(),
+    it('should skip missing legacy files', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          default: { theme: 'light', fontSize: 12 },
+          legacySources: [
+            { path: legacyFile, serializer: legacySerializer, version: 1 },
+          ],
+        },
+        mockSerializer,
+      );
+      mockFsPromises.readFile.mockRejectedValue(notFoundError);
+
+      const result = await store.loadWithInfo(testFile);
+
+      expect(result).toMatchObject({
+        status: 'default',
+        error: expect.objectContaining({ code: 'FileRead' }),
       });
+      expect(mockFsPromises.readFile).toHaveBeenCalledWith(legacyFile, 'utf-8');
+    });
 
+    it('should not use legacy files when the file exists but is invalid', async () => {
       const store = createZodFile(
-        { schema, version: 1 as const },
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          legacySources: [
+            { path: legacyFile, serializer: legacySerializer, version: 1 },
+          ],
+        },
         mockSerializer,
       );
+      mockFsPromises.readFile.mockResolvedValue('<file-content-invalid>');
+      mockSerializer.parse.mockReturnValue({ _version: 2, theme: 42 });
 
-      mockFsPromises.readFile.mockResolvedValue(
-        '<file-content-version-future-1>',
+      await expect(store.load(testFile)).rejects.toThrowZodFileError(
+        'Validation',
       );
-      mockSerializer.parse.mockReturnValue({ _version: 2, theme: 'dark' });
+      expect(legacySerializer.parse).not.toHaveBeenCalled();
+    });
 
-      await expect(store.load(testFile)).rejects.toThrowZodFileError(
-        'UnsupportedVersion',
+    it('should report errors of an invalid legacy file', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [migration1],
+          legacySources: [
+            { path: legacyFile, serializer: legacySerializer, version: 1 },
+          ],
+        },
+        mockSerializer,
       );
+      mockLegacyFile({ theme: 42 });
+
+      await expect(store.load(testFile)).rejects.toThrow(legacyFile);
     });
   });
 
@@ -742,6 +3092,357 @@ describe('createZodFile', () => {
     });
   });
 
+  describe('downgrades', () => {
+    const SettingsV1 = z.object({ theme: z.string() });
+    const SettingsV2 = z.object({
+      theme: z.enum(['light', 'dark']),
+      fontSize: z.number(),
+    });
+    const SettingsV3 = z.object({
+      theme: z.enum(['light', 'dark']),
+      fontSize: z.number(),
+      accentColor: z.string(),
+    });
+    type SettingsV1 = z.infer<typeof SettingsV1>;
+    type SettingsV2 = z.infer<typeof SettingsV2>;
+    type SettingsV3 = z.infer<typeof SettingsV3>;
+
+    const migration1: MigrationStep<1, SettingsV1, SettingsV2> = {
+      version: 1,
+      schema: SettingsV1,
+      migrate: (v1) => ({
+        theme: v1.theme === 'dark' ? 'dark' : 'light',
+        fontSize: 14,
+      }),
+      down: (v2) => ({ theme: v2.theme }),
+    };
+    const migration2: MigrationStep<2, SettingsV2, SettingsV3> = {
+      version: 2,
+      schema: SettingsV2,
+      migrate: (v2) => ({ ...v2, accentColor: '#0066cc' }),
+      down: async ({ accentColor: _accentColor, ...v2 }) => v2,
+    };
+    const data = { theme: 'dark' as const, fontSize: 16, accentColor: '#fff' };
+
+    it('should save at an older version using down functions', async () => {
+      const store = createZodFile(
+        {
+          version: 3 as const,
+          schema: SettingsV3,
+          migrations: [migration1, migration2],
+        },
+        mockSerializer,
+      );
+
+      await store.save(data, testFile, { version: 1 });
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { _version: 1, theme: 'dark' },
+        false,
+      );
+    });
+
+    it('should save at the current version by default', async () => {
+      const store = createZodFile(
+        {
+          version: 3 as const,
+          schema: SettingsV3,
+          migrations: [migration1, migration2],
+        },
+        mockSerializer,
+      );
+
+      await store.save(data, testFile, { version: 3 });
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { _version: 3, ...data },
+        false,
+      );
+    });
+
+    it('should throw Migration when a step has no down function', async () => {
+      const store = createZodFile(
+        {
+          version: 3 as const,
+          schema: SettingsV3,
+          migrations: [{ ...migration1, down: undefined }, migration2],
+        },
+        mockSerializer,
+      );
+
+      await expect(
+        store.save(data, testFile, { version: 1 }),
+      ).rejects.toThrowZodFileError('Migration');
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should throw Migration when downgraded data does not match the step schema', async () => {
+      const store = createZodFile(
+        {
+          version: 2 as const,
+          schema: SettingsV2,
+          migrations: [
+            {
+              ...migration1,
+              down: () => ({ theme: 42 }) as unknown as SettingsV1,
+            },
+          ],
+        },
+        mockSerializer,
+      );
+
+      await expect(
+        store.save({ theme: 'dark', fontSize: 14 }, testFile, { version: 1 }),
+      ).rejects.toThrowZodFileError('Migration');
+    });
+
+    it('should throw UnsupportedVersion for versions outside the chain', async () => {
+      const store = createZodFile(
+        {
+          version: 3 as const,
+          schema: SettingsV3,
+          migrations: [migration1, migration2],
+        },
+        mockSerializer,
+      );
+
+      await expect(
+        store.save(data, testFile, { version: 4 }),
+      ).rejects.toThrowZodFileError('UnsupportedVersion');
+      await expect(
+        store.save(data, testFile, { version: 0 }),
+      ).rejects.toThrowZodFileError('UnsupportedVersion');
+    });
+
+    it('should throw UnsupportedVersion when versioning is not configured', async () => {
+      const store = createZodFile({ schema: SettingsV1 }, mockSerializer);
+
+      await expect(
+        store.save({ theme: 'dark' }, testFile, { version: 1 }),
+      ).rejects.toThrowZodFileError('UnsupportedVersion');
+    });
+
+    it('should downgrade a file in place', async () => {
+      const store = createZodFile(
+        {
+          version: 3 as const,
+          schema: SettingsV3,
+          migrations: [migration1, migration2],
+          default: { theme: 'light', fontSize: 12, accentColor: '#000' },
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-downgrade-1>');
+      mockSerializer.parse.mockReturnValue({ _version: 3, ...data });
+
+      await store.downgrade(testFile, 2);
+
+      expect(mockSerializer.stringify).toHaveBeenCalledWith(
+        { _version: 2, theme: 'dark', fontSize: 16 },
+        false,
+      );
+      expect(mockFsPromises.rename).toHaveBeenCalledWith(
+        expect.any(String),
+        testFile,
+      );
+    });
+
+    it('should not downgrade the default when the file cannot be loaded', async () => {
+      const store = createZodFile(
+        {
+          version: 3 as const,
+          schema: SettingsV3,
+          migrations: [migration1, migration2],
+          default: { theme: 'light', fontSize: 12, accentColor: '#000' },
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockRejectedValue(new Error('File not found'));
+
+      await expect(store.downgrade(testFile, 2)).rejects.toThrowZodFileError(
+        'FileRead',
+      );
+      expect(mockSerializer.stringify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('migration plans', () => {
+    const SettingsV1 = z.object({ theme: z.string() });
+    const SettingsV2 = z.object({
+      theme: z.enum(['light', 'dark']),
+      fontSize: z.number(),
+    });
+    const SettingsV3 = z.object({
+      theme: z.enum(['light', 'dark']),
+      fontSize: z.number(),
+      accentColor: z.string(),
+    });
+    type SettingsV1 = z.infer<typeof SettingsV1>;
+    type SettingsV2 = z.infer<typeof SettingsV2>;
+    type SettingsV3 = z.infer<typeof SettingsV3>;
+
+    const migration1: MigrationStep<1, SettingsV1, SettingsV2> = {
+      version: 1,
+      schema: SettingsV1,
+      migrate: (v1) => ({
+        theme: v1.theme === 'dark' ? 'dark' : 'light',
+        fontSize: 14,
+      }),
+    };
+    const migration2: MigrationStep<2, SettingsV2, SettingsV3> = {
+      version: 2,
+      schema: SettingsV2,
+      migrate: (v2) => ({ ...v2, accentColor: '#0066cc' }),
+    };
+
+    function createStore() {
+      return createZodFile(
+        {
+          version: 3 as const,
+          schema: SettingsV3,
+          migrations: [migration1, migration2],
+          default: { theme: 'light', fontSize: 12, accentColor: '#000' },
+        },
+        mockSerializer,
+      );
+    }
+
+    it('should list the migrations that would run', async () => {
+      const store = createStore();
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-plan-1>');
+      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 'dark' });
+
+      const plan = await store.planMigration(testFile);
+
+      expect(plan).toEqual({
+        path: testFile,
+        fromVersion: 1,
+        toVersion: 3,
+        steps: [migration1, migration2],
+      });
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should plan no migrations for a file at the current version', async () => {
+      const store = createStore();
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-plan-2>');
+      mockSerializer.parse.mockReturnValue({
+        _version: 3,
+        theme: 'dark',
+        fontSize: 16,
+        accentColor: '#fff',
+      });
+
+      const plan = await store.planMigration(testFile);
+
+      expect(plan.fromVersion).toBe(3);
+      expect(plan.steps).toEqual([]);
+    });
+
+    it('should throw instead of falling back to the default', async () => {
+      const store = createStore();
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-plan-3>');
+      mockSerializer.parse.mockReturnValue({ _version: 4, theme: 'dark' });
+
+      await expect(store.planMigration(testFile)).rejects.toThrowZodFileError(
+        'UnsupportedVersion',
+      );
+      await expect(store.dryRunMigration(testFile)).rejects.toThrowZodFileError(
+        'UnsupportedVersion',
+      );
+    });
+
+    it('should report intermediate values of a dry run', async () => {
+      const store = createStore();
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-plan-4>');
+      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 'dark' });
+
+      const dryRun = await store.dryRunMigration(testFile);
+
+      expect(dryRun.fromVersion).toBe(1);
+      expect(dryRun.toVersion).toBe(3);
+      expect(dryRun.results).toEqual([
+        {
+          version: 1,
+          status: 'migrated',
+          input: { theme: 'dark' },
+          output: { theme: 'dark', fontSize: 14 },
+        },
+        {
+          version: 2,
+          status: 'migrated',
+          input: { theme: 'dark', fontSize: 14 },
+          output: { theme: 'dark', fontSize: 14, accentColor: '#0066cc' },
+        },
+      ]);
+      expect(dryRun.result).toEqual({
+        success: true,
+        data: { theme: 'dark', fontSize: 14, accentColor: '#0066cc' },
+      });
+      expect(mockFsPromises.writeFile).not.toHaveBeenCalled();
+      expect(mockFsPromises.rename).not.toHaveBeenCalled();
+    });
+
+    it('should skip the steps after a failed step', async () => {
+      const store = createStore();
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-plan-5>');
+      mockSerializer.parse.mockReturnValue({ _version: 1, theme: 42 });
+
+      const dryRun = await store.dryRunMigration(testFile);
+
+      expect(dryRun.results).toEqual([
+        {
+          version: 1,
+          status: 'failed',
+          input: { theme: 42 },
+          error: expect.any(ZodFileError),
+        },
+        { version: 2, status: 'skipped' },
+      ]);
+      expect(dryRun.result).toEqual({
+        success: false,
+        error: expect.objectContaining({ code: 'Migration' }),
+      });
+    });
+
+    it('should report a failed final validation', async () => {
+      const store = createZodFile(
+        {
+          version: 3 as const,
+          schema: SettingsV3,
+          migrations: [
+            migration1,
+            { ...migration2, migrate: (v2: SettingsV2) => v2 },
+          ],
+        },
+        mockSerializer,
+      );
+
+      mockFsPromises.readFile.mockResolvedValue('<file-content-plan-6>');
+      mockSerializer.parse.mockReturnValue({
+        _version: 2,
+        theme: 'light',
+        fontSize: 12,
+      });
+
+      const dryRun = await store.dryRunMigration(testFile);
+
+      expect(dryRun.results).toHaveLength(1);
+      expect(dryRun.results[0]?.status).toBe('migrated');
+      expect(dryRun.result).toEqual({
+        success: false,
+        error: expect.objectContaining({ code: 'Validation' }),
+      });
+    });
+  });
+
   describe('schema validation', () => {
     it('should validate data against schema on load', async () => {
       const schema = z.object({
@@ -1,8 +1,53 @@
+import fsSync from 'node:fs';
 import fs from 'node:fs/promises';
 
 import { ZodError, z } from 'zod';
 
-import { ZodFileError } from './errors';
+import { type Annotation, annotationsFor } from './annotate';
+import { writeFileAtomic, writeFileAtomicSync } from './atomic';
+import {
+  backupPath,
+  quarantineFile,
+  rotateBackups,
+  rotateBackupsSync,
+} from './backup';
+import {
+  type DocumentOptions,
+  type ZodFileDocument,
+  createDocument,
+} from './document';
+import {
+  type EnvOptions,
+  type OverriddenValue,
+  applyOverrides,
+  readEnv,
+  restoreOverridden,
+} from './env';
+import { type VersionEnvelope, createEnvelope } from './envelope';
+import { type ErrorCode, ZodFileError } from './errors';
+import {
+  type Composition,
+  type IncludeOptions,
+  resolveIncludes,
+  restoreIncludes,
+} from './include';
+import {
+  type Resolver,
+  type Template,
+  defaultResolvers,
+  resolveReferences,
+  restoreTemplates,
+} from './interpolate';
+import { type LockOptions, withLock } from './lock';
+import { type ArrayMergeStrategy, mergeDeep } from './merge';
+import { withFields } from './patch';
+import { defaultsInput, optionalSamples } from './scaffold';
+import {
+  type WatchHandle,
+  type WatchListener,
+  type WatchOptions,
+  watchFile,
+} from './watch';
 
 /**
  * A migration step that transforms data from one schema version to the next.
@@ -36,6 +81,8 @@ import { ZodFileError } from './errors';
  *     theme: v1.theme === 'dark' ? 'dark' : 'light',
  *     fontSize: 14,
  *   }),
+ *   // Optional, to save data for older versions of the application
+ *   down: (v2) => ({ theme: v2.theme }),
  * };
  * ```
  */
@@ -60,6 +107,97 @@ export type MigrationStep<V extends number = number, TFrom = any, TTo = any> = {
    * @returns The transformed data for version V+1
    */
   migrate: (data: TFrom) => TTo | Promise<TTo>;
+
+  /**
+   * Transforms data from version V+1 back to version V.
+   * Can be synchronous or asynchronous.
+   *
+   * Optional. Required to save data at version V or older with the `version`
+   * save option or `downgrade`. The result is validated against `schema`.
+   *
+   * @param data - The data at version V+1
+   * @returns The transformed data for version V
+   */
+  down?: (data: TTo) => TFrom | Promise<TFrom>;
+};
+
+/**
+ * Whether to save migrated data back to the file after a successful load.
+ *
+ * With `true`, the migrated data is saved in the current version. With
+ * `{ keepOriginal: true }`, the original file is also copied to
+ * `<path>.v<version>` before being overwritten. With `false`, the file is
+ * left at its old version and migrations run on every load.
+ */
+export type WriteBackMigrated = boolean | { keepOriginal: boolean };
+
+/**
+ * Whether to deep-merge loaded data over the default value before
+ * validation.
+ *
+ * With `true`, arrays in the file replace arrays of the default value. With
+ * `{ arrays: 'concat' }`, their items missing from the arrays of the default
+ * value are appended to them instead, so that saving loaded data does not
+ * repeat the default items.
+ */
+export type MergeDefaults = boolean | { arrays: ArrayMergeStrategy };
+
+/**
+ * Whether to resolve references like `${env:HOME}` in the string values of
+ * loaded files.
+ *
+ * With `true`, the built-in `env`, `file` and `self` resolvers are available.
+ * With `{ resolvers }`, the given resolvers are available too, and replace the
+ * built-in resolvers of the same name.
+ */
+export type Interpolate = boolean | { resolvers: Record<string, Resolver> };
+
+/**
+ * An older location or format of a file, to migrate from when the file
+ * itself does not exist.
+ *
+ * @example
+ * ```typescript
+ * import { jsonSerializer } from 'zod-file/json';
+ *
+ * const source: LegacySource = {
+ *   path: path.join(os.homedir(), '.app/config.json'),
+ *   serializer: jsonSerializer,
+ *   version: 1,
+ *   cleanup: 'rename',
+ * };
+ * ```
+ */
+export type LegacySource = {
+  /**
+   * Path to the legacy file.
+   */
+  path: string;
+
+  /**
+   * The serializer for the format of the legacy file.
+   */
+  serializer: Serializer;
+
+  /**
+   * The version of the data in the legacy file, in the current migration
+   * chain.
+   *
+   * A number treats the whole legacy file as data at that version. A
+   * function receives the parsed legacy file and returns its version, to map
+   * version numbers of the legacy file to the current chain. When not set,
+   * the version is read from the legacy file like from the file itself.
+   */
+  version?: number | ((parsed: unknown) => number);
+
+  /**
+   * What to do with the legacy file once its data is saved to the new
+   * location. With `'rename'`, the legacy file is renamed to
+   * `<path>.migrated`.
+   *
+   * @defaultValue 'keep'
+   */
+  cleanup?: 'keep' | 'remove' | 'rename';
 };
 
 /**
@@ -110,18 +248,165 @@ export type ZodFileOptions<
    * The current schema version number.
    *
    * Required when migrations are provided. When set, files include a
-   * `_version` field that is used to determine which migrations to apply.
+   * version, stored as set by `envelope`, that is used to determine which
+   * migrations to apply.
    */
   version?: V;
 
+  /**
+   * The version of files written before versioning was enabled, which have
+   * no version. When set, such files are migrated from this version instead
+   * of being rejected.
+   *
+   * Use `0` to migrate legacy files with a dedicated migration step at
+   * version 0, in which case the migration chain starts from version 0.
+   */
+  legacyVersion?: number;
+
+  /**
+   * Where the version is stored in files, when `version` is set.
+   *
+   * @defaultValue `{ type: 'field', field: '_version' }`
+   */
+  envelope?: VersionEnvelope;
+
   /**
    * Array of migration steps to upgrade data from older versions.
    *
-   * Migrations must form a sequential chain starting from version 1
-   * and ending at `version - 1`. Each migration transforms data from
-   * version V to version V+1.
+   * Migrations must form a sequential chain starting from version 1 (or 0
+   * with `legacyVersion: 0`) and ending at `version - 1`. Each migration
+   * transforms data from version V to version V+1.
+   *
+   * Use `migrations()` to build a chain whose types are checked against
+   * `schema` and `version`.
+   */
+  migrations?: MigrationStep[] & {
+    readonly '~types'?: { output: NoInfer<T>; version: NoInfer<V> };
+  };
+
+  /**
+   * Older locations or formats of the file, tried in order when the file
+   * does not exist.
+   *
+   * The first legacy file that exists is loaded, migrated, and saved to the
+   * requested path in the current format and version. Legacy files that
+   * cannot be loaded are handled like the file itself: the default value is
+   * returned if configured, or the error is thrown.
+   */
+  legacySources?: LegacySource[];
+
+  /**
+   * Whether to keep the comments, key order and blank lines of existing
+   * files on save, for formats whose serializer supports it (YAML and TOML).
+   *
+   * Each save reads the current content of the file and only applies the
+   * changed values onto it, so that edits made since the file was loaded are
+   * kept. Values that cannot be patched in place, such as arrays of TOML
+   * tables, are rewritten, and compact saves always rewrite the whole file.
+   *
+   * @defaultValue false
+   */
+  preserveFormatting?: boolean;
+
+  /**
+   * Number of previous versions of the file to keep on every save.
+   *
+   * Before a file is overwritten, its current content is copied to
+   * `<path>.bak.1`, and existing backups are shifted up to `<path>.bak.<N>`.
+   * The oldest backup is discarded. Use `restoreFromBackup` in load options
+   * to load from these backups when the file holds invalid data.
+   *
+   * @defaultValue 0
+   */
+  backups?: number;
+
+  /**
+   * What to do with a file that exists but cannot be loaded (invalid format,
+   * invalid version, failed migration or validation) when falling back to
+   * the default value or to a backup. Files whose includes cannot be
+   * resolved are kept.
+   *
+   * With `'keep'`, the file is left in place and overwritten by the next
+   * save. With `'quarantine'`, the file is renamed to
+   * `<path>.corrupt-<timestamp>` so that it can be inspected later.
+   *
+   * @defaultValue 'keep'
+   */
+  onInvalidFile?: 'keep' | 'quarantine';
+
+  /**
+   * Whether to save migrated data back to the file after a successful load,
+   * so that migrations run only once per file. Can be overridden in load
+   * options.
+   *
+   * @defaultValue false
+   */
+  writeBackMigrated?: WriteBackMigrated;
+
+  /**
+   * Whether to deep-merge the data of loaded files over the default value
+   * before validation, so that files missing some fields keep their values
+   * and only gain the missing ones, instead of being replaced by the default.
+   *
+   * Requires `default`. The default value is encoded with the schema before
+   * merging, and the merge happens after migrations.
+   *
+   * @defaultValue false
+   */
+  mergeDefaults?: MergeDefaults;
+
+  /**
+   * Whether to resolve `${name:reference}` references in the string values of
+   * loaded files before validation, e.g. `${env:HOME}` for an environment
+   * variable, `${file:./secret.txt}` for the content of a file relative to the
+   * loaded file, or `${self:server.host}` for another value of the file.
+   *
+   * Values that still hold their resolved value are saved as their original
+   * references. Write `$${` for a literal `${`.
+   *
+   * @defaultValue false
+   */
+  interpolate?: Interpolate;
+
+  /**
+   * Whether files can be composed from other files, relative to their own
+   * location: an object with a `$include` key, holding a path or an array of
+   * paths, is the deep merge of the included files and of its own keys, and
+   * an object with only a `$ref` key is replaced with the content of the
+   * referenced file.
+   *
+   * Includes are resolved after parsing, before versioning and validation.
+   * Saving keeps the `$include` and `$ref` keys of the file last loaded from
+   * the same path, and writes only the values that differ from the included
+   * files, which are never written. Changes that cannot be written over the
+   * included files, e.g. to a referenced array, throw an `Include` error.
+   *
+   * @defaultValue false
+   */
+  includes?: boolean | IncludeOptions;
+
+  /**
+   * Environment variables overriding the values of loaded files, e.g.
+   * `APP_DATABASE__PORT` for `database.port` with the `APP_` prefix.
+   *
+   * Values are converted to the type of their field and applied over the
+   * loaded data, or over the default value, before a final validation.
+   * Variables that cannot be converted or make the data invalid throw a
+   * `Validation` error naming the variables, even when a default is
+   * configured. Overrides are never saved: values that still hold the value
+   * of their variable are saved with the value of the file, e.g. by
+   * `update`.
+   */
+  env?: EnvOptions;
+
+  /**
+   * Called when load operations return the default value because the file
+   * could not be loaded.
+   *
+   * @param error - The error that caused the fallback
+   * @param quarantinePath - Where the invalid file was moved, if it was quarantined
    */
-  migrations?: MigrationStep[];
+  onFallback?: (error: ZodFileError, quarantinePath?: string) => void;
 };
 
 /**
@@ -134,6 +419,12 @@ export type ZodFileOptions<
  *
  * // Always throw on error, even with default configured
  * const data = await store.load('./config.json', { throwOnError: true });
+ *
+ * // Try backups before falling back to the default
+ * const data = await store.load('./config.json', {
+ *   restoreFromBackup: true,
+ *   onRestoreFromBackup: (path) => console.warn(`Restored ${path}`),
+ * });
  * ```
  */
 export type LoadOptions = {
@@ -147,6 +438,239 @@ export type LoadOptions = {
    * @defaultValue false
    */
   throwOnError?: boolean;
+
+  /**
+   * If true, when the file holds invalid data (invalid format or version,
+   * failed migration or validation), try the backups kept by the `backups`
+   * option, most recent first, before falling back to the default value or
+   * throwing. Missing files are not restored.
+   *
+   * @defaultValue false
+   */
+  restoreFromBackup?: boolean;
+
+  /**
+   * Called when the data was loaded from a backup instead of the file.
+   *
+   * @param backupPath - Path to the backup that was loaded
+   * @param error - The error that prevented loading the file itself
+   */
+  onRestoreFromBackup?: (backupPath: string, error: ZodFileError) => void;
+
+  /**
+   * Whether to save migrated data back to the file after a successful load.
+   * Overrides the instance's `writeBackMigrated` option.
+   */
+  writeBackMigrated?: WriteBackMigrated;
+};
+
+/**
+ * The content of a file, as read and parsed.
+ */
+type RawFile = {
+  content: string;
+  parsed: unknown;
+};
+
+/**
+ * The data returned by a successful load, with the version it was read at.
+ */
+type LoadedFile<T> = {
+  data: T;
+  fromVersion: number | undefined;
+};
+
+/**
+ * The outcome of a `loadWithInfo` call, describing where the data came from.
+ *
+ * - `loaded`: the file was loaded as-is.
+ * - `migrated`: the file was loaded and migrated from an older version.
+ * - `imported`: the file did not exist and a legacy source was used instead.
+ * - `restored`: the file could not be loaded and a backup was used instead.
+ * - `default`: the file could not be loaded and the default value was used.
+ *
+ * @typeParam T - The data type managed by the ZodFile instance
+ *
+ * @example
+ * ```typescript
+ * const result = await store.loadWithInfo('./config.json');
+ * switch (result.status) {
+ *   case 'migrated':
+ *     console.info(`Migrated from version ${result.fromVersion}`);
+ *     break;
+ *   case 'default':
+ *     if (result.error.code !== 'FileRead') {
+ *       showWarning(`Settings were reset: ${result.error.message}`);
+ *     }
+ *     break;
+ * }
+ * ```
+ */
+export type LoadResult<T> =
+  | {
+      status: 'loaded';
+      data: T;
+      /**
+       * The version of the file, or undefined when versioning is not used.
+       */
+      fromVersion: number | undefined;
+    }
+  | {
+      status: 'migrated';
+      data: T;
+      /**
+       * The version of the file before migrations were applied.
+       */
+      fromVersion: number;
+      /**
+       * Whether the migrated data was saved back to the file.
+       */
+      writtenBack: boolean;
+    }
+  | {
+      status: 'imported';
+      data: T;
+      /**
+       * The version of the legacy file, or undefined when versioning is not
+       * used.
+       */
+      fromVersion: number | undefined;
+      /**
+       * Path to the legacy file that was loaded.
+       */
+      sourcePath: string;
+      /**
+       * Whether the data was saved to the requested path.
+       */
+      writtenBack: boolean;
+    }
+  | {
+      status: 'restored';
+      data: T;
+      /**
+       * The version of the backup, or undefined when versioning is not used.
+       */
+      fromVersion: number | undefined;
+      /**
+       * Path to the backup that was loaded.
+       */
+      backupPath: string;
+      /**
+       * The error that prevented loading the file itself.
+       */
+      error: ZodFileError;
+    }
+  | {
+      status: 'default';
+      data: T;
+      /**
+       * The error that prevented loading the file.
+       */
+      error: ZodFileError;
+      /**
+       * Where the invalid file was moved, if it was quarantined.
+       */
+      quarantinePath?: string;
+    };
+
+/**
+ * The migrations that loading a file would apply, as returned by
+ * `planMigration`.
+ *
+ * @example
+ * ```typescript
+ * const plan = await store.planMigration('./config.json');
+ * console.log(`Version ${plan.fromVersion} -> ${plan.toVersion}`);
+ * console.log(`${plan.steps.length} migration(s) to run`);
+ * ```
+ */
+export type MigrationPlan = {
+  /**
+   * Path to the file.
+   */
+  path: string;
+
+  /**
+   * The version found in the file, or undefined when versioning is not used.
+   */
+  fromVersion: number | undefined;
+
+  /**
+   * The current schema version, or undefined when versioning is not used.
+   */
+  toVersion: number | undefined;
+
+  /**
+   * The migration steps that would run, in order.
+   */
+  steps: MigrationStep[];
+};
+
+/**
+ * The outcome of a single migration step in a dry run.
+ *
+ * A step is `skipped` when an earlier step failed.
+ */
+export type MigrationStepResult =
+  | {
+      version: number;
+      status: 'migrated';
+      /**
+       * The data passed to the step, before validation.
+       */
+      input: unknown;
+      /**
+       * The data returned by the step's `migrate` function.
+       */
+      output: unknown;
+    }
+  | {
+      version: number;
+      status: 'failed';
+      /**
+       * The data passed to the step, before validation.
+       */
+      input: unknown;
+      /**
+       * Why the data did not validate or could not be migrated.
+       */
+      error: ZodFileError;
+    }
+  | {
+      version: number;
+      status: 'skipped';
+    };
+
+/**
+ * The result of running migrations on a file without saving anything, as
+ * returned by `dryRunMigration`.
+ *
+ * @typeParam T - The data type managed by the ZodFile instance
+ *
+ * @example
+ * ```typescript
+ * const dryRun = await store.dryRunMigration('./config.json');
+ * for (const step of dryRun.results) {
+ *   if (step.status === 'failed') {
+ *     console.error(`Step ${step.version} failed: ${step.error.message}`);
+ *   }
+ * }
+ * if (dryRun.result.success) {
+ *   console.log('Migrated data:', dryRun.result.data);
+ * }
+ * ```
+ */
+export type MigrationDryRun<T> = MigrationPlan & {
+  /**
+   * The outcome of each step in `steps`.
+   */
+  results: MigrationStepResult[];
+
+  /**
+   * The outcome of the whole pipeline: the data validated against the
+   * current schema, or the first error encountered.
+   */
+  result: { success: true; data: T } | { success: false; error: ZodFileError };
 };
 
 /**
@@ -159,6 +683,12 @@ export type LoadOptions = {
  *
  * // Compact output without indentation
  * await store.save(data, './config.json', { compact: true });
+ *
+ * // Write in place instead of replacing the file atomically
+ * await store.save(data, './config.json', { atomic: false });
+ *
+ * // Save for an older version of the application
+ * await store.save(data, './config.json', { version: 1 });
  * ```
  */
 export type SaveOptions = {
@@ -168,8 +698,129 @@ export type SaveOptions = {
    * @defaultValue false
    */
   compact?: boolean;
+
+  /**
+   * If true, write to a temporary sibling file, flush it to disk and rename
+   * it over the target, so that a crash mid-write never leaves a truncated
+   * file behind.
+   *
+   * Set to false to write the target file in place.
+   *
+   * @defaultValue true
+   */
+  atomic?: boolean;
+
+  /**
+   * If true, write the description, default value and allowed values of
+   * each field of the schema as comments above its key, for formats whose
+   * serializer supports it (YAML and TOML).
+   *
+   * @defaultValue false
+   */
+  annotate?: boolean;
+
+  /**
+   * The schema version to save the data at.
+   *
+   * When older than the current version, the data is converted by walking
+   * the migration chain backwards with each step's `down` function, and
+   * validated against each step's schema.
+   *
+   * @defaultValue the current version
+   */
+  version?: number;
+};
+
+/**
+ * A function that computes the new data from the current data in `update`.
+ * Can be synchronous or asynchronous.
+ *
+ * @typeParam T - The data type managed by the ZodFile instance
+ */
+export type Updater<T> = (current: T) => T | Promise<T>;
+
+/**
+ * Options for the `init` method.
+ *
+ * @example
+ * ```typescript
+ * // Refuse to overwrite an existing file (default behavior)
+ * await store.init('./config.yaml');
+ *
+ * // Document the file and list its optional fields as comments
+ * await store.init('./config.yaml', { annotate: true, includeOptional: true });
+ *
+ * // Reset an existing file to the default value
+ * await store.init('./config.yaml', { overwrite: true });
+ * ```
+ */
+export type InitOptions = Omit<SaveOptions, 'version'> & {
+  /**
+   * If true, replace the file when it already exists.
+   *
+   * @defaultValue false
+   */
+  overwrite?: boolean;
+
+  /**
+   * If true, write the optional fields that have no value, with a
+   * placeholder value, as commented-out keys, for formats whose serializer
+   * supports it (YAML and TOML).
+   *
+   * @defaultValue false
+   */
+  includeOptional?: boolean;
 };
 
+/**
+ * Options for the `loadSync` method.
+ *
+ * `loadSync` never writes files, so it neither restores backups nor writes
+ * migrated data back.
+ */
+export type LoadSyncOptions = Pick<LoadOptions, 'throwOnError'>;
+
+/**
+ * Options for the `saveSync` method.
+ *
+ * Data is always saved at the current version, as downgrades may be async.
+ */
+export type SaveSyncOptions = Omit<SaveOptions, 'version'>;
+
+/**
+ * Options for the `update` method.
+ *
+ * Combines the options of `load` and `save` with options for the lock
+ * guarding the read-modify-write sequence.
+ *
+ * @example
+ * ```typescript
+ * await store.update('./config.json', (data) => ({ ...data, count: data.count + 1 }), {
+ *   lock: { timeout: 10_000 },
+ * });
+ * ```
+ */
+export type UpdateOptions = LoadOptions &
+  SaveOptions & {
+    /**
+     * Options for the advisory lock file.
+     */
+    lock?: LockOptions;
+  };
+
+/**
+ * Options for the `open` method.
+ *
+ * Combines the options of `load`, used for the initial load and `reload`,
+ * the options of `save`, used for every save, and the document options.
+ *
+ * @example
+ * ```typescript
+ * const doc = await store.open('./config.json', { autosave: 500 });
+ * ```
+ */
+export type OpenOptions = LoadOptions & SaveOptions & DocumentOptions;
+
 /**
  * A persistence instance for type-safe file operations.
  *
@@ -208,25 +859,195 @@ export type ZodFile<T> = {
   load(path: string, options?: LoadOptions): Promise<T>;
 
   /**
-   * Saves data to a file.
+   * Loads and validates data from a file, reporting where the data came from.
    *
-   * If the instance is configured with a version, includes a `_version`
-   * field in the output. Uses the schema's `encodeAsync` for serialization,
-   * supporting custom transforms.
+   * Behaves like `load`, but instead of returning the data alone, returns
+   * a {@link LoadResult} telling whether the file was loaded as-is, migrated
+   * from an older version, restored from a backup, or replaced by the
+   * default value, along with the error that caused a fallback.
    *
-   * @param data - The data to save (must match the schema)
    * @param path - Path to the file
-   * @param options - Save options
-   * @throws {ZodFileError} When encoding or writing fails
+   * @param options - Load options
+   * @returns The validated data and how it was obtained
+   * @throws {ZodFileError} When loading fails and no default is configured, or when `throwOnError` is true
    */
-  save(data: T, path: string, options?: SaveOptions): Promise<void>;
-};
+  loadWithInfo(path: string, options?: LoadOptions): Promise<LoadResult<T>>;
 
-/**
- * A serializer that converts between data and string representation.
- *
- * Implement this interface to add support for custom file formats.
- * Built-in implementations are available via `zod-file/json`, `zod-file/yaml`, and `zod-file/toml`.
+  /**
+   * Reports which migrations loading a file would apply, without running
+   * them.
+   *
+   * Never falls back to the default value and never writes anything.
+   *
+   * @param path - Path to the file
+   * @returns The file's version and the migration steps that would run
+   * @throws {ZodFileError} When the file cannot be read or parsed, or its version is invalid or unsupported
+   */
+  planMigration(path: string): Promise<MigrationPlan>;
+
+  /**
+   * Runs the migrations that loading a file would apply, without saving
+   * anything, and reports the intermediate data and validation result of
+   * each step.
+   *
+   * Never falls back to the default value and never writes anything. Note
+   * that migration functions are called, so any side effect they have still
+   * happens.
+   *
+   * @param path - Path to the file
+   * @returns The migration plan, with the outcome of each step and of the final validation
+   * @throws {ZodFileError} When the file cannot be read or parsed, or its version is invalid or unsupported
+   */
+  dryRunMigration(path: string): Promise<MigrationDryRun<T>>;
+
+  /**
+   * Saves data to a file.
+   *
+   * If the instance is configured with a version, includes the version in
+   * the output, as set by the `envelope` option. Uses the schema's `encodeAsync` for serialization,
+   * supporting custom transforms.
+   *
+   * By default, the file is replaced atomically: data is written to a
+   * temporary file in the same directory, flushed, then renamed over the
+   * target.
+   *
+   * @param data - The data to save (must match the schema)
+   * @param path - Path to the file
+   * @param options - Save options
+   * @throws {ZodFileError} When encoding, writing or replacing the file fails
+   * @throws {ZodFileError} With code `Include` when changes cannot be written over the files that the file includes
+   */
+  save(data: T, path: string, options?: SaveOptions): Promise<void>;
+
+  /**
+   * Loads and validates data from a file synchronously, for code that cannot
+   * wait for a promise, such as CLI startup code.
+   *
+   * Behaves like `load`, with the schema's `parse` instead of `parseAsync`,
+   * but never writes anything: legacy sources are read but not saved to the
+   * requested path, and invalid files are not quarantined. Not available
+   * with the `includes` and `interpolate` options.
+   *
+   * @param path - Path to the file
+   * @param options - Load options
+   * @returns The validated data
+   * @throws {ZodFileError} When loading fails and no default is configured, or when `throwOnError` is true
+   * @throws {ZodFileError} With code `Validation` or `Migration` when the schema or a migration is async, even when a default is configured
+   * @throws {ZodFileError} With code `Include` or `Interpolation` when the `includes` or `interpolate` option is set
+   */
+  loadSync(path: string, options?: LoadSyncOptions): T;
+
+  /**
+   * Saves data to a file synchronously.
+   *
+   * Behaves like `save`, with the schema's `encode` instead of `encodeAsync`,
+   * and always saves at the current version.
+   *
+   * @param data - The data to save (must match the schema)
+   * @param path - Path to the file
+   * @param options - Save options
+   * @throws {ZodFileError} When encoding, writing or replacing the file fails
+   * @throws {ZodFileError} With code `Encoding` when the schema is async
+   */
+  saveSync(data: T, path: string, options?: SaveSyncOptions): void;
+
+  /**
+   * Rewrites a file at an older schema version.
+   *
+   * Loads the file (without falling back to the default value), converts its
+   * data with the `down` functions of the migration chain, and saves it with
+   * the older version, so that older versions of the application can read it.
+   *
+   * @param path - Path to the file
+   * @param version - The version to downgrade the file to
+   * @param options - Save options
+   * @throws {ZodFileError} When loading fails, when a migration step has no `down` function or it fails, or when the version is not supported
+   */
+  downgrade(
+    path: string,
+    version: number,
+    options?: Omit<SaveOptions, 'version'>,
+  ): Promise<void>;
+
+  /**
+   * Creates a file with the default value, e.g. on first run.
+   *
+   * Writes the configured `default`, or when there is none, the value the
+   * schema produces from its own defaults. Refuses to replace an existing
+   * file unless `overwrite` is set.
+   *
+   * @param path - Path to the file
+   * @param options - Init and save options
+   * @returns The data written to the file
+   * @throws {ZodFileError} When the file exists (code `FileExists`), when the schema has no default for a required field (code `Validation`), or when saving fails
+   */
+  init(path: string, options?: InitOptions): Promise<T>;
+
+  /**
+   * Loads, transforms and saves data in a single read-modify-write sequence.
+   *
+   * An advisory lock file (`<path>.lock`) is held for the whole sequence, so
+   * concurrent `update` calls on the same file, from this or other processes,
+   * are serialized and do not lose each other's changes. Data is loaded
+   * through the same migration and validation pipeline as `load`.
+   *
+   * @param path - Path to the file
+   * @param updater - Function computing the new data from the current data
+   * @param options - Load, save and lock options
+   * @returns The updated data, as saved
+   * @throws {ZodFileError} When the lock cannot be acquired (code `Lock`), or when loading or saving fails
+   */
+  update(
+    path: string,
+    updater: Updater<T>,
+    options?: UpdateOptions,
+  ): Promise<T>;
+
+  /**
+   * Watches a file and reloads it whenever it changes.
+   *
+   * Each reload runs the full `load` pipeline (parsing, version check,
+   * migrations and validation). The listener is only called with values that
+   * load successfully; when an edit makes the file invalid, the error is
+   * reported to `options.onError` and the last valid value is kept. The
+   * default value is never used.
+   *
+   * The file is loaded once when watching starts. Editors that save by
+   * replacing the file are supported.
+   *
+   * @param path - Path to the file
+   * @param listener - Called with each new valid value
+   * @param options - Watch options
+   * @returns A handle holding the last valid value, used to stop watching
+   * @throws {ZodFileError} When the file's directory cannot be watched
+   */
+  watch(
+    path: string,
+    listener: WatchListener<T>,
+    options?: WatchOptions,
+  ): WatchHandle<T>;
+
+  /**
+   * Loads a file and returns a document handle bound to it.
+   *
+   * The handle holds the current value in memory, so that the path does not
+   * need to be passed to every operation. With `autosave`, changes are
+   * written automatically after a delay, coalescing bursts of changes into
+   * a single save.
+   *
+   * @param path - Path to the file
+   * @param options - Load, save and document options
+   * @returns A document handle holding the loaded value
+   * @throws {ZodFileError} When the initial load fails
+   */
+  open(path: string, options?: OpenOptions): Promise<ZodFileDocument<T>>;
+};
+
+/**
+ * A serializer that converts between data and string representation.
+ *
+ * Implement this interface to add support for custom file formats.
+ * Built-in implementations are available via `zod-file/json`, `zod-file/yaml`, and `zod-file/toml`.
  *
  * @example
  * ```typescript
@@ -266,8 +1087,131 @@ export type Serializer = {
    * @returns The stringified data
    */
   stringify(data: unknown, compact: boolean): string;
+
+  /**
+   * Prefix of a line comment (e.g., `#`), for formats that support comments.
+   * Required to store the version in a header comment.
+   */
+  commentPrefix?: string;
+
+  /**
+   * Applies data onto the content of an existing file, keeping its comments
+   * and layout. Used on save when `preserveFormatting` is enabled.
+   *
+   * @param original - The content of the existing file
+   * @param data - The data to write
+   * @returns The patched content, or undefined to stringify the data instead
+   */
+  patch?(original: string, data: unknown): string | undefined;
+
+  /**
+   * Writes comments above the keys of stringified data. Used on save with
+   * the `annotate` option.
+   *
+   * @param content - The stringified data
+   * @param annotations - The comments to write above each key
+   * @returns The annotated content
+   */
+  annotate?(content: string, annotations: Annotation[]): string;
+
+  /**
+   * Comments out keys of stringified data, with their values. Used by
+   * `init` with the `includeOptional` option.
+   *
+   * @param content - The stringified data
+   * @param paths - The paths of the keys to comment out
+   * @returns The content with the keys commented out
+   */
+  commentOut?(content: string, paths: string[][]): string;
 };
 
+/**
+ * Whether an error was caused by a missing file.
+ */
+export function isNotFound(error: unknown): boolean {
+  return (
+    error instanceof ZodFileError &&
+    error.code === 'FileRead' &&
+    error.cause instanceof Error &&
+    'code' in error.cause &&
+    error.cause.code === 'ENOENT'
+  );
+}
+
+/**
+ * Codes of the errors of files that can be read but hold invalid data, which
+ * backups can replace.
+ */
+const invalidDataCodes = new Set<ErrorCode>([
+  'InvalidFormat',
+  'InvalidVersion',
+  'UnsupportedVersion',
+  'Migration',
+  'Validation',
+]);
+
+/**
+ * Errors of `loadSync` and `saveSync` meeting an async schema or migration,
+ * which are thrown even when a default value is configured.
+ */
+const asyncErrors = new WeakSet<ZodFileError>();
+
+/**
+ * Creates the error thrown when a synchronous method meets an async schema
+ * or migration.
+ */
+function asyncError(
+  code: ErrorCode,
+  message: string,
+  cause?: Error,
+): ZodFileError {
+  const error = new ZodFileError(
+    code,
+    `${message}. Use the asynchronous methods instead`,
+    cause,
+  );
+  asyncErrors.add(error);
+  return error;
+}
+
+/**
+ * The input each loaded value was validated from, e.g. the parsed file
+ * content, for values whose schema decodes or transforms them.
+ */
+const inputs = new WeakMap<object, unknown>();
+
+/**
+ * Returns the input a value returned by a load operation was validated from,
+ * to validate it again, e.g. once merged with other values.
+ *
+ * @param data - A value returned by a load operation
+ * @returns The input of the value, or the value itself if it has none
+ */
+export function loadedInput(data: object): unknown {
+  return inputs.has(data) ? inputs.get(data) : data;
+}
+
+/**
+ * Whether a file exists.
+ *
+ * @throws {ZodFileError} With code `FileRead` when the file cannot be checked
+ */
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return false;
+    }
+    throw new ZodFileError(
+      'FileRead',
+      `Failed to access file: ${filePath}`,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+}
+
 /**
  * Creates a ZodFile persistence instance with a custom serializer.
  *
@@ -303,19 +1247,56 @@ export function createZodFile<
     schema,
     default: defaultValue,
     migrations = [],
+    legacyVersion,
+    legacySources = [],
+    envelope: envelopeOptions = { type: 'field' },
+    preserveFormatting = false,
+    backups = 0,
+    onInvalidFile = 'keep',
+    onFallback,
+    writeBackMigrated: defaultWriteBackMigrated = false,
+    mergeDefaults = false,
+    interpolate = false,
+    includes = false,
+    env: envOptions,
   } = options;
 
+  if (mergeDefaults !== false && defaultValue === undefined) {
+    throw new Error(
+      'A default value is required when mergeDefaults is enabled',
+    );
+  }
+
   // Sort migrations by version ascending
   const sortedMigrations = [...migrations].sort(
     (a, b) => a.version - b.version,
   );
 
+  // Validate legacy version is within the supported versions
+  if (legacyVersion !== undefined) {
+    if (currentVersion === undefined) {
+      throw new Error('Version is required when legacyVersion is provided');
+    }
+    if (
+      !Number.isInteger(legacyVersion) ||
+      legacyVersion < 0 ||
+      legacyVersion > currentVersion
+    ) {
+      throw new Error(
+        `Legacy version must be an integer from 0 to ${currentVersion}, got ${legacyVersion}`,
+      );
+    }
+  }
+
+  // The chain starts at version 0 only to migrate legacy files
+  const firstVersion = legacyVersion === 0 ? 0 : 1;
+
   // Validate migration chain is sequential
   for (let i = 0; i < sortedMigrations.length; i++) {
-    const expectedVersion = i + 1;
+    const expectedVersion = i + firstVersion;
     if (sortedMigrations[i].version !== expectedVersion) {
       throw new Error(
-        `Migration chain must be sequential starting from version 1. Found version ${sortedMigrations[i].version} at position ${i}`,
+        `Migration chain must be sequential starting from version ${firstVersion}. Found version ${sortedMigrations[i].version} at position ${i}`,
       );
     }
   }
@@ -337,202 +1318,1302 @@ export function createZodFile<
     }
   }
 
-  async function load(filePath: string, loadOptions?: LoadOptions): Promise<T> {
-    const { throwOnError = false } = loadOptions ?? {};
+  const envelope = createEnvelope(envelopeOptions, serializer);
+
+  const includeOptions =
+    includes === false ? undefined : includes === true ? {} : includes;
+
+  const resolvers =
+    interpolate === false
+      ? undefined
+      : {
+          ...defaultResolvers,
+          ...(interpolate === true ? {} : interpolate.resolvers),
+        };
+
+  // String values of the files last loaded that held references, to save
+  // them unresolved
+  const templates = new Map<string, Template[]>();
+
+  // Values of the files last loaded that environment variables replaced, to
+  // save the values of the files instead
+  const overriddenValues = new Map<string, OverriddenValue[]>();
+
+  // Content of the files last read before and after resolving their
+  // includes, to save them with their includes
+  const compositions = new Map<string, Composition>();
+
+  /**
+   * Reads and parses a file, before any version handling.
+   */
+  async function readFile(
+    filePath: string,
+    fileSerializer: Serializer = serializer,
+  ): Promise<RawFile> {
+    compositions.delete(filePath);
 
     // Read file
     let fileContent: string;
     try {
       fileContent = await fs.readFile(filePath, 'utf-8');
     } catch (error) {
-      if (throwOnError || defaultValue === undefined) {
-        throw new ZodFileError(
-          'FileRead',
-          `Failed to read file: ${filePath}`,
-          error instanceof Error ? error : new Error(String(error)),
-        );
-      }
-      return getDefault();
+      throw new ZodFileError(
+        'FileRead',
+        `Failed to read file: ${filePath}`,
+        error instanceof Error ? error : new Error(String(error)),
+      );
+    }
+
+    const file = parseFile(fileContent, filePath, fileSerializer);
+    if (includeOptions !== undefined) {
+      const raw = file.parsed;
+      const bases = new WeakMap<object, unknown>();
+      file.parsed = await resolveIncludes(
+        raw,
+        filePath,
+        fileSerializer,
+        includeOptions,
+        bases,
+      );
+      compositions.set(filePath, { raw, composed: file.parsed, bases });
+    }
+    return file;
+  }
+
+  /**
+   * Reads and parses a file synchronously, before any version handling.
+   */
+  function readFileSync(
+    filePath: string,
+    fileSerializer: Serializer = serializer,
+  ): RawFile {
+    let fileContent: string;
+    try {
+      fileContent = fsSync.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      throw new ZodFileError(
+        'FileRead',
+        `Failed to read file: ${filePath}`,
+        error instanceof Error ? error : new Error(String(error)),
+      );
     }
+    return parseFile(fileContent, filePath, fileSerializer);
+  }
 
-    // Parse content
+  /**
+   * Parses the content of a file.
+   */
+  function parseFile(
+    fileContent: string,
+    filePath: string,
+    fileSerializer: Serializer,
+  ): RawFile {
     let parsed: unknown;
     try {
-      parsed = serializer.parse(fileContent);
+      parsed = fileSerializer.parse(fileContent);
     } catch (error) {
-      if (throwOnError || defaultValue === undefined) {
-        throw new ZodFileError(
-          'InvalidFormat',
-          `Invalid ${serializer.formatName} in file: ${filePath}`,
-          error instanceof Error ? error : new Error(String(error)),
-        );
+      let message = `Invalid ${fileSerializer.formatName} in file: ${filePath}`;
+      if (error instanceof Error) {
+        message = `${message}\n${error.message}`;
       }
-      return getDefault();
+      throw new ZodFileError(
+        'InvalidFormat',
+        message,
+        error instanceof Error ? error : new Error(String(error)),
+      );
     }
+    return { content: fileContent, parsed };
+  }
 
-    let data: unknown;
-    if (currentVersion !== undefined) {
-      // Versioned mode: expect _version field
-      if (
-        typeof parsed !== 'object' ||
-        parsed === null ||
-        !('_version' in parsed)
-      ) {
-        if (throwOnError || defaultValue === undefined) {
-          throw new ZodFileError(
-            'InvalidVersion',
-            `Missing _version field in file: ${filePath}`,
-          );
-        }
-        return getDefault();
-      }
+  /**
+   * Extracts the version and data from parsed file content.
+   * In unversioned mode, the content is the data.
+   */
+  function unwrapVersion(
+    { content, parsed }: RawFile,
+    filePath: string,
+  ): { data: unknown; fromVersion: number | undefined } {
+    if (currentVersion === undefined) {
+      return { data: parsed, fromVersion: undefined };
+    }
 
-      const versionValue = parsed._version;
-      if (
-        typeof versionValue !== 'number' ||
-        !Number.isInteger(versionValue) ||
-        versionValue <= 0
-      ) {
-        if (throwOnError || defaultValue === undefined) {
-          throw new ZodFileError(
-            'InvalidVersion',
-            `Invalid _version field in file: ${filePath}. Expected integer > 0, got ${JSON.stringify(versionValue)}`,
-          );
-        }
-        return getDefault();
-      }
-      const fileVersion = versionValue;
+    // Versioned mode: expect a version in the envelope
+    const unwrapped = envelope.unwrap(content, parsed);
+    if (unwrapped === undefined && legacyVersion !== undefined) {
+      // File written before versioning was enabled
+      return { data: parsed, fromVersion: legacyVersion };
+    }
+    if (unwrapped === undefined) {
+      throw new ZodFileError(
+        'InvalidVersion',
+        `Missing ${envelope.description} in file: ${filePath}`,
+      );
+    }
 
-      // Check for unsupported future version
-      if (fileVersion > currentVersion) {
-        if (throwOnError || defaultValue === undefined) {
-          throw new ZodFileError(
-            'UnsupportedVersion',
-            `Unsupported file version ${fileVersion} in ${filePath}. Current schema version is ${currentVersion}`,
-          );
-        }
-        return getDefault();
-      }
+    return {
+      data: unwrapped.data,
+      fromVersion: checkVersion(
+        unwrapped.version,
+        envelope.description,
+        filePath,
+      ),
+    };
+  }
 
-      // Extract data (remove _version)
-      const { _version: _unused, ...extractedData } = parsed as {
-        _version: number;
-        [key: string]: unknown;
-      };
-      data = extractedData;
+  /**
+   * Checks that a version read from a file is supported.
+   */
+  function checkVersion(
+    versionValue: unknown,
+    description: string,
+    filePath: string,
+  ): number {
+    if (
+      typeof versionValue !== 'number' ||
+      !Number.isInteger(versionValue) ||
+      versionValue < firstVersion
+    ) {
+      throw new ZodFileError(
+        'InvalidVersion',
+        `Invalid ${description} in file: ${filePath}. Expected integer >= ${firstVersion}, got ${JSON.stringify(versionValue)}`,
+      );
+    }
 
-      let dataVersion = fileVersion;
-      while (dataVersion < currentVersion) {
-        const migration = sortedMigrations.find(
-          (m) => m.version === dataVersion,
-        );
+    // Check for unsupported future version
+    if (currentVersion !== undefined && versionValue > currentVersion) {
+      throw new ZodFileError(
+        'UnsupportedVersion',
+        `Unsupported file version ${versionValue} in ${filePath}. Current schema version is ${currentVersion}`,
+      );
+    }
 
-        if (migration === undefined) {
-          if (throwOnError || defaultValue === undefined) {
-            throw new ZodFileError(
-              'Migration',
-              `No migration found for version ${dataVersion} in file: ${filePath}`,
-            );
-          }
-          return getDefault();
-        }
+    return versionValue;
+  }
 
-        try {
-          // Parse with migration's schema
-          // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-          const parsedData = await migration.schema.parseAsync(data);
-
-          // Run migration (handle both sync and async)
-          // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-          const migrationResult = migration.migrate(parsedData);
-          data = await Promise.resolve(migrationResult);
-
-          dataVersion++;
-        } catch (error) {
-          if (throwOnError || defaultValue === undefined) {
-            let message = `Migration from version ${dataVersion} failed in file: ${filePath}`;
-            if (error instanceof ZodError) {
-              message = `${message}\n${z.prettifyError(error)}`;
-            }
-            throw new ZodFileError(
-              'Migration',
-              message,
-              error instanceof Error ? error : new Error(String(error)),
-            );
-          }
-          return getDefault();
-        }
-      }
-    } else {
-      data = parsed;
+  /**
+   * Returns the migration steps to apply to data at a given version, in
+   * order.
+   */
+  function pendingMigrations(
+    fromVersion: number | undefined,
+    filePath: string,
+  ): MigrationStep[] {
+    if (fromVersion === undefined || currentVersion === undefined) {
+      return [];
     }
-
-    // Validate final data with current schema
-    try {
-      const result = await schema.parseAsync(data);
-      return result;
-    } catch (error) {
-      if (throwOnError || defaultValue === undefined) {
-        let message = `Schema validation failed for file: ${filePath}`;
-        if (error instanceof ZodError) {
-          message = `${message}\n${z.prettifyError(error)}`;
-        }
+    const steps: MigrationStep[] = [];
+    for (let version = fromVersion; version < currentVersion; version++) {
+      const migration = sortedMigrations.find((m) => m.version === version);
+      if (migration === undefined) {
         throw new ZodFileError(
-          'Validation',
-          message,
-          error instanceof ZodError ? error : new Error(String(error)),
+          'Migration',
+          `No migration found for version ${version} in file: ${filePath}`,
         );
       }
-      return getDefault();
+      steps.push(migration);
     }
+    return steps;
   }
 
-  async function save(
-    data: T,
+  /**
+   * Validates data with a migration step's schema, then migrates it.
+   */
+  async function runMigration(
+    migration: MigrationStep,
+    data: unknown,
     filePath: string,
-    saveOptions?: SaveOptions,
-  ): Promise<void> {
-    const { compact = false } = saveOptions ?? {};
-
-    // Encode data with schema (for codec support)
-    // Use encodeAsync to support async transforms
-    let encoded: unknown;
+  ): Promise<unknown> {
     try {
-      encoded = await schema.encodeAsync(data);
+      // Parse with migration's schema
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const parsedData = await migration.schema.parseAsync(data);
+
+      // Run migration (handle both sync and async)
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const migrationResult = migration.migrate(parsedData);
+      return await Promise.resolve(migrationResult);
     } catch (error) {
-      let message = `Schema encoding failed for file: ${filePath}`;
-      if (error instanceof ZodError) {
-        message = `${message}\n${z.prettifyError(error)}`;
-      }
-      throw new ZodFileError(
-        'Encoding',
-        message,
-        error instanceof ZodError ? error : new Error(String(error)),
-      );
+      throw migrationError(migration, filePath, error);
     }
+  }
 
-    // Wrap with version (only if version is configured)
-    const fileData =
-      currentVersion !== undefined
-        ? {
-            _version: currentVersion,
-            ...(typeof encoded === 'object' && encoded !== null ? encoded : {}),
+  /**
+   * Validates data with a migration step's schema, then migrates it,
+   * synchronously.
+   *
+   * @throws {ZodFileError} With code `Migration` when the schema or the migration is async
+   */
+  function runMigrationSync(
+    migration: MigrationStep,
+    data: unknown,
+    filePath: string,
+  ): unknown {
+    const message = `Migration from version ${migration.version} is async in file: ${filePath}`;
+    let migrationResult: unknown;
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const parsedData = migration.schema.parse(data);
+      migrationResult = migration.migrate(parsedData);
+    } catch (error) {
+      if (error instanceof z.core.$ZodAsyncError) {
+        throw asyncError('Migration', message, error);
+      }
+      throw migrationError(migration, filePath, error);
+    }
+    if (migrationResult instanceof Promise) {
+      // Do not leave the rejection of the ignored promise unhandled
+      migrationResult.catch(() => undefined);
+      throw asyncError('Migration', message);
+    }
+    return migrationResult;
+  }
+
+  /**
+   * Wraps an error thrown by a migration step.
+   */
+  function migrationError(
+    migration: MigrationStep,
+    filePath: string,
+    error: unknown,
+  ): ZodFileError {
+    let message = `Migration from version ${migration.version} failed in file: ${filePath}`;
+    if (error instanceof ZodError) {
+      message = `${message}\n${z.prettifyError(error)}`;
+    }
+    return new ZodFileError(
+      'Migration',
+      message,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+
+  /**
+   * Validates data against the current schema.
+   */
+  async function validate(data: unknown, filePath: string): Promise<T> {
+    try {
+      let input = data;
+      if (mergeDefaults !== false) {
+        const arrays =
+          mergeDefaults === true ? 'replace' : mergeDefaults.arrays;
+        const defaults = await schema.encodeAsync(getDefault());
+        input = mergeDeep(defaults, data, arrays);
+      }
+      if (resolvers !== undefined) {
+        const result = await resolveReferences(input, filePath, resolvers);
+        input = result.data;
+        templates.set(filePath, result.templates);
+      }
+      const validated = await schema.parseAsync(input);
+      inputs.set(validated, input);
+      return validated;
+    } catch (error) {
+      if (error instanceof ZodFileError) {
+        throw error;
+      }
+      throw validationError(filePath, error);
+    }
+  }
+
+  /**
+   * Validates data against the current schema synchronously.
+   *
+   * @throws {ZodFileError} With code `Validation` when the schema is async
+   */
+  function validateSync(data: unknown, filePath: string): T {
+    try {
+      let input = data;
+      if (mergeDefaults !== false) {
+        const arrays =
+          mergeDefaults === true ? 'replace' : mergeDefaults.arrays;
+        input = mergeDeep(schema.encode(getDefault()), data, arrays);
+      }
+      const validated = schema.parse(input);
+      inputs.set(validated, input);
+      return validated;
+    } catch (error) {
+      if (error instanceof z.core.$ZodAsyncError) {
+        throw asyncError(
+          'Validation',
+          `Schema is async for file: ${filePath}`,
+          error,
+        );
+      }
+      throw validationError(filePath, error);
+    }
+  }
+
+  /**
+   * Wraps an error thrown by the validation of data, naming the environment
+   * variables applied to it, if any.
+   */
+  function validationError(
+    filePath: string,
+    error: unknown,
+    variables?: string,
+  ): ZodFileError {
+    let message = `Schema validation failed for file: ${filePath}`;
+    if (variables !== undefined) {
+      message = `${message} with environment variables ${variables}`;
+    }
+    if (error instanceof ZodError) {
+      message = `${message}\n${z.prettifyError(error)}`;
+    }
+    return new ZodFileError(
+      'Validation',
+      message,
+      error instanceof ZodError ? error : new Error(String(error)),
+    );
+  }
+
+  /**
+   * Loads a file through the full pipeline, throwing on any failure.
+   */
+  async function loadFile(filePath: string): Promise<LoadedFile<T>> {
+    const file = await readFile(filePath);
+    const { data, fromVersion } = unwrapVersion(file, filePath);
+    return migrate(data, fromVersion, filePath);
+  }
+
+  /**
+   * Loads a file through the full pipeline synchronously, throwing on any
+   * failure.
+   */
+  function loadFileSync(filePath: string): LoadedFile<T> {
+    const file = readFileSync(filePath);
+    const { data, fromVersion } = unwrapVersion(file, filePath);
+    return migrateSync(data, fromVersion, filePath);
+  }
+
+  /**
+   * Loads a legacy file through the full pipeline, with its own format and
+   * version mapping, throwing on any failure.
+   */
+  async function loadLegacySource(
+    source: LegacySource,
+  ): Promise<LoadedFile<T>> {
+    const file = await readFile(source.path, source.serializer);
+    const { data, fromVersion } = unwrapLegacyVersion(file, source);
+    return migrate(data, fromVersion, source.path);
+  }
+
+  /**
+   * Loads a legacy file through the full pipeline synchronously, throwing on
+   * any failure.
+   */
+  function loadLegacySourceSync(source: LegacySource): LoadedFile<T> {
+    const file = readFileSync(source.path, source.serializer);
+    const { data, fromVersion } = unwrapLegacyVersion(file, source);
+    return migrateSync(data, fromVersion, source.path);
+  }
+
+  /**
+   * Extracts the version and data from the parsed content of a legacy file,
+   * with the version mapping of its source.
+   */
+  function unwrapLegacyVersion(
+    file: RawFile,
+    { path: sourcePath, version }: LegacySource,
+  ): { data: unknown; fromVersion: number | undefined } {
+    if (version === undefined || currentVersion === undefined) {
+      return unwrapVersion(file, sourcePath);
+    }
+    const fromVersion = checkVersion(
+      typeof version === 'function' ? version(file.parsed) : version,
+      'legacy source version',
+      sourcePath,
+    );
+    return { data: file.parsed, fromVersion };
+  }
+
+  /**
+   * Migrates data from a given version, then validates it.
+   */
+  async function migrate(
+    unwrapped: unknown,
+    fromVersion: number | undefined,
+    filePath: string,
+  ): Promise<LoadedFile<T>> {
+    let data = unwrapped;
+    for (const migration of pendingMigrations(fromVersion, filePath)) {
+      data = await runMigration(migration, data, filePath);
+    }
+
+    return { data: await validate(data, filePath), fromVersion };
+  }
+
+  /**
+   * Migrates data from a given version, then validates it, synchronously.
+   */
+  function migrateSync(
+    unwrapped: unknown,
+    fromVersion: number | undefined,
+    filePath: string,
+  ): LoadedFile<T> {
+    let data = unwrapped;
+    for (const migration of pendingMigrations(fromVersion, filePath)) {
+      data = runMigrationSync(migration, data, filePath);
+    }
+    return { data: validateSync(data, filePath), fromVersion };
+  }
+
+  /**
+   * Loads the first legacy source that exists, and saves its data to the
+   * requested path.
+   *
+   * @returns The result, or undefined if no legacy source exists
+   * @throws {ZodFileError} When an existing legacy source cannot be loaded
+   */
+  async function importLegacySource(
+    filePath: string,
+  ): Promise<LoadResult<T> | undefined> {
+    for (const source of legacySources) {
+      let loaded: LoadedFile<T>;
+      try {
+        loaded = await loadLegacySource(source);
+      } catch (error) {
+        if (isNotFound(error)) {
+          continue;
+        }
+        throw error;
+      }
+
+      // The includes of the legacy file are relative to it, so its data is
+      // saved with its includes resolved
+      adopt(templates, source.path, filePath);
+      let writtenBack = false;
+      try {
+        await save(loaded.data, filePath);
+        writtenBack = true;
+      } catch {
+        // The legacy file is kept, and imported again on the next load
+      }
+      if (writtenBack) {
+        await cleanupLegacySource(source);
+      }
+      return {
+        status: 'imported',
+        data: loaded.data,
+        fromVersion: loaded.fromVersion,
+        sourcePath: source.path,
+        writtenBack,
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * Records what was recorded for a file loaded from another path, e.g. a
+   * legacy source, for the path it is saved to.
+   */
+  function adopt<V>(
+    records: Map<string, V>,
+    sourcePath: string,
+    filePath: string,
+  ): void {
+    const record = records.get(sourcePath);
+    if (record === undefined) {
+      records.delete(filePath);
+    } else {
+      records.set(filePath, record);
+    }
+  }
+
+  /**
+   * Removes or renames a legacy file once imported. Best effort: the data is
+   * already saved to the new location.
+   */
+  async function cleanupLegacySource({
+    path: sourcePath,
+    cleanup = 'keep',
+  }: LegacySource): Promise<void> {
+    try {
+      if (cleanup === 'remove') {
+        await fs.unlink(sourcePath);
+      } else if (cleanup === 'rename') {
+        await fs.rename(sourcePath, `${sourcePath}.migrated`);
+      }
+    } catch {
+      // Ignore errors
+    }
+  }
+
+  async function planMigration(filePath: string): Promise<MigrationPlan> {
+    const file = await readFile(filePath);
+    const { fromVersion } = unwrapVersion(file, filePath);
+    return {
+      path: filePath,
+      fromVersion,
+      toVersion: currentVersion,
+      steps: pendingMigrations(fromVersion, filePath),
+    };
+  }
+
+  async function dryRunMigration(
+    filePath: string,
+  ): Promise<MigrationDryRun<T>> {
+    const file = await readFile(filePath);
+    const { data: unwrapped, fromVersion } = unwrapVersion(file, filePath);
+    const steps = pendingMigrations(fromVersion, filePath);
+    const plan = {
+      path: filePath,
+      fromVersion,
+      toVersion: currentVersion,
+      steps,
+    };
+
+    const results: MigrationStepResult[] = [];
+    let data = unwrapped;
+    let failure: ZodFileError | undefined;
+    for (const migration of steps) {
+      if (failure !== undefined) {
+        results.push({ version: migration.version, status: 'skipped' });
+        continue;
+      }
+      try {
+        const output = await runMigration(migration, data, filePath);
+        results.push({
+          version: migration.version,
+          status: 'migrated',
+          input: data,
+          output,
+        });
+        data = output;
+      } catch (error) {
+        if (!(error instanceof ZodFileError)) {
+          throw error;
+        }
+        failure = error;
+        results.push({
+          version: migration.version,
+          status: 'failed',
+          input: data,
+          error,
+        });
+      }
+    }
+
+    if (failure !== undefined) {
+      return { ...plan, results, result: { success: false, error: failure } };
+    }
+    try {
+      const validated = await validate(data, filePath);
+      return { ...plan, results, result: { success: true, data: validated } };
+    } catch (error) {
+      if (!(error instanceof ZodFileError)) {
+        throw error;
+      }
+      return { ...plan, results, result: { success: false, error } };
+    }
+  }
+
+  async function loadWithInfo(
+    filePath: string,
+    loadOptions?: LoadOptions,
+  ): Promise<LoadResult<T>> {
+    const result = await loadFromFiles(filePath, loadOptions);
+    return { ...result, data: await applyEnv(result.data, filePath) };
+  }
+
+  /**
+   * Applies the environment variable overrides over loaded data, and
+   * validates the result.
+   */
+  async function applyEnv(data: T, filePath: string): Promise<T> {
+    if (envOptions === undefined) {
+      return data;
+    }
+    const overrides = readEnv(schema, envOptions);
+    overriddenValues.delete(filePath);
+    if (overrides.length === 0) {
+      return data;
+    }
+    try {
+      const { data: input, overridden } = applyOverrides(
+        await schema.encodeAsync(data),
+        overrides,
+      );
+      const validated = await schema.parseAsync(input);
+      inputs.set(validated, input);
+      overriddenValues.set(filePath, overridden);
+      return validated;
+    } catch (error) {
+      const variables = overrides.map(({ variable }) => variable).join(', ');
+      throw validationError(filePath, error, variables);
+    }
+  }
+
+  /**
+   * Applies the environment variable overrides over loaded data, and
+   * validates the result, synchronously.
+   */
+  function applyEnvSync(data: T, filePath: string): T {
+    if (envOptions === undefined) {
+      return data;
+    }
+    const overrides = readEnv(schema, envOptions);
+    overriddenValues.delete(filePath);
+    if (overrides.length === 0) {
+      return data;
+    }
+    try {
+      const { data: input, overridden } = applyOverrides(
+        schema.encode(data),
+        overrides,
+      );
+      const validated = schema.parse(input);
+      inputs.set(validated, input);
+      overriddenValues.set(filePath, overridden);
+      return validated;
+    } catch (error) {
+      if (error instanceof z.core.$ZodAsyncError) {
+        throw asyncError(
+          'Validation',
+          `Schema is async for file: ${filePath}`,
+          error,
+        );
+      }
+      const variables = overrides.map(({ variable }) => variable).join(', ');
+      throw validationError(filePath, error, variables);
+    }
+  }
+
+  /**
+   * Loads a file, a legacy source, a backup or the default value, before
+   * environment variable overrides.
+   */
+  async function loadFromFiles(
+    filePath: string,
+    loadOptions?: LoadOptions,
+  ): Promise<LoadResult<T>> {
+    const {
+      throwOnError = false,
+      restoreFromBackup = false,
+      onRestoreFromBackup,
+      writeBackMigrated = defaultWriteBackMigrated,
+    } = loadOptions ?? {};
+
+    // The overrides of a previous load are stale, and would be restored by
+    // the writes below. The new ones are recorded once the file is loaded
+    overriddenValues.delete(filePath);
+
+    let loaded: LoadedFile<T>;
+    try {
+      loaded = await loadFile(filePath);
+    } catch (fileError) {
+      if (!(fileError instanceof ZodFileError)) {
+        throw fileError;
+      }
+
+      let error = fileError;
+      if (legacySources.length > 0 && isNotFound(fileError)) {
+        try {
+          const imported = await importLegacySource(filePath);
+          if (imported !== undefined) {
+            return imported;
+          }
+        } catch (legacyError) {
+          if (!(legacyError instanceof ZodFileError)) {
+            throw legacyError;
+          }
+          error = legacyError;
+        }
+      }
+
+      // Missing and unreadable files are not restored, e.g. so that deleting
+      // a file resets it
+      if (restoreFromBackup && invalidDataCodes.has(error.code)) {
+        for (let i = 1; i <= backups; i++) {
+          const path = backupPath(filePath, i);
+          let loaded: LoadedFile<T>;
+          try {
+            loaded = await loadFile(path);
+          } catch {
+            // Try the next backup
+            continue;
+          }
+          await quarantine(filePath, error);
+          adopt(templates, path, filePath);
+          adopt(compositions, path, filePath);
+          onRestoreFromBackup?.(path, error);
+          return {
+            status: 'restored',
+            data: loaded.data,
+            fromVersion: loaded.fromVersion,
+            backupPath: path,
+            error,
+          };
+        }
+      }
+
+      if (throwOnError || defaultValue === undefined) {
+        throw error;
+      }
+      const quarantinePath = await quarantine(filePath, error);
+      onFallback?.(error, quarantinePath);
+      const data = getDefault();
+      try {
+        inputs.set(data, await schema.encodeAsync(data));
+      } catch {
+        // The default value is its own input
+      }
+      return { status: 'default', data, error, quarantinePath };
+    }
+
+    const { data, fromVersion } = loaded;
+    if (fromVersion === undefined || fromVersion === currentVersion) {
+      return { status: 'loaded', data, fromVersion };
+    }
+    const writtenBack =
+      writeBackMigrated !== false &&
+      (await writeBack(data, filePath, fromVersion, writeBackMigrated));
+    return { status: 'migrated', data, fromVersion, writtenBack };
+  }
+
+  /**
+   * Saves migrated data back to its file in the current version.
+   *
+   * Failures are not fatal: the data was loaded successfully, and the
+   * migrations will simply run again on the next load.
+   *
+   * @returns Whether the data was written back
+   */
+  async function writeBack(
+    data: T,
+    filePath: string,
+    fromVersion: number,
+    writeBackMigrated: WriteBackMigrated,
+  ): Promise<boolean> {
+    try {
+      if (
+        typeof writeBackMigrated === 'object' &&
+        writeBackMigrated.keepOriginal
+      ) {
+        await fs.copyFile(filePath, `${filePath}.v${fromVersion}`);
+      }
+      await save(data, filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async function load(filePath: string, loadOptions?: LoadOptions): Promise<T> {
+    const { data } = await loadWithInfo(filePath, loadOptions);
+    return data;
+  }
+
+  function loadSync(filePath: string, loadOptions?: LoadSyncOptions): T {
+    if (includeOptions !== undefined) {
+      throw asyncError(
+        'Include',
+        `Includes cannot be resolved synchronously in file: ${filePath}`,
+      );
+    }
+    if (resolvers !== undefined) {
+      throw asyncError(
+        'Interpolation',
+        `References cannot be resolved synchronously in file: ${filePath}`,
+      );
+    }
+    const { throwOnError = false } = loadOptions ?? {};
+
+    let data: T;
+    try {
+      ({ data } = loadFileSync(filePath));
+    } catch (fileError) {
+      if (!(fileError instanceof ZodFileError)) {
+        throw fileError;
+      }
+
+      let error = fileError;
+      let imported: LoadedFile<T> | undefined;
+      if (isNotFound(fileError)) {
+        try {
+          imported = readLegacySourceSync();
+        } catch (legacyError) {
+          if (!(legacyError instanceof ZodFileError)) {
+            throw legacyError;
           }
-        : encoded;
+          error = legacyError;
+        }
+      }
+
+      if (imported !== undefined) {
+        ({ data } = imported);
+      } else if (
+        throwOnError ||
+        defaultValue === undefined ||
+        asyncErrors.has(error)
+      ) {
+        throw error;
+      } else {
+        onFallback?.(error, undefined);
+        data = getDefault();
+      }
+    }
+    return applyEnvSync(data, filePath);
+  }
+
+  /**
+   * Loads the first legacy source that exists synchronously, without saving
+   * its data to the requested path.
+   *
+   * @returns The loaded data, or undefined if no legacy source exists
+   * @throws {ZodFileError} When an existing legacy source cannot be loaded
+   */
+  function readLegacySourceSync(): LoadedFile<T> | undefined {
+    for (const source of legacySources) {
+      try {
+        return loadLegacySourceSync(source);
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw error;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Moves an invalid file out of the way when quarantine is enabled.
+   * Files that could not be read are left alone, and so are files whose
+   * included files could not be loaded, since the failure lies elsewhere.
+   */
+  async function quarantine(
+    filePath: string,
+    error: ZodFileError,
+  ): Promise<string | undefined> {
+    if (
+      onInvalidFile !== 'quarantine' ||
+      error.code === 'FileRead' ||
+      error.code === 'Include'
+    ) {
+      return undefined;
+    }
+    return quarantineFile(filePath);
+  }
+
+  /**
+   * Returns the existing content of a file to apply data onto, when
+   * formatting is preserved.
+   *
+   * @returns The content, or undefined if the file must be rewritten
+   */
+  async function readDocument(filePath: string): Promise<string | undefined> {
+    if (!preserveFormatting || serializer.patch === undefined) {
+      return undefined;
+    }
+    try {
+      return await fs.readFile(filePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the existing content of a file to apply data onto, when
+   * formatting is preserved, synchronously.
+   *
+   * @returns The content, or undefined if the file must be rewritten
+   */
+  function readDocumentSync(filePath: string): string | undefined {
+    if (!preserveFormatting || serializer.patch === undefined) {
+      return undefined;
+    }
+    try {
+      return fsSync.readFileSync(filePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the schema of data at a version.
+   */
+  function schemaAt(version: number | undefined): z.ZodObject {
+    const migration = sortedMigrations.find((m) => m.version === version);
+    return migration !== undefined && migration.schema instanceof z.ZodObject
+      ? migration.schema
+      : schema;
+  }
+
+  async function save(
+    data: T,
+    filePath: string,
+    saveOptions?: SaveOptions,
+  ): Promise<void> {
+    await writeData(data, filePath, saveOptions, false);
+  }
 
-    // Stringify data
-    const content = serializer.stringify(fileData, compact);
+  /**
+   * Encodes, stringifies and writes data to a file.
+   *
+   * @param includeOptional - Whether to write missing optional fields as commented-out keys
+   * @param exclusive - Whether to throw `FileExists` instead of replacing an existing file
+   */
+  async function writeData(
+    data: T,
+    filePath: string,
+    saveOptions: SaveOptions | undefined,
+    includeOptional: boolean,
+    exclusive = false,
+  ): Promise<void> {
+    const {
+      compact = false,
+      atomic = true,
+      version: targetVersion = currentVersion,
+    } = saveOptions ?? {};
+
+    // Encode data with schema (for codec support)
+    // Use encodeAsync to support async transforms
+    let encoded: unknown;
+    try {
+      encoded = await schema.encodeAsync(data);
+    } catch (error) {
+      throw encodingError(filePath, error);
+    }
+
+    if (
+      targetVersion !== undefined &&
+      currentVersion !== undefined &&
+      targetVersion !== currentVersion
+    ) {
+      encoded = await downgradeData(data, filePath, targetVersion);
+    } else if (targetVersion !== currentVersion) {
+      throw new ZodFileError(
+        'UnsupportedVersion',
+        `Cannot save file at version ${targetVersion}: ${filePath}. Versioning is not configured`,
+      );
+    }
+
+    const original =
+      compact || includeOptional ? undefined : await readDocument(filePath);
+    const content = formatData(
+      encoded,
+      filePath,
+      targetVersion,
+      saveOptions,
+      includeOptional,
+      original,
+    );
+
+    // Keep previous versions of the file
+    if (backups > 0 && !exclusive) {
+      await rotateBackups(filePath, backups);
+    }
 
     // Write file
+    if (atomic) {
+      await writeFileAtomic(filePath, content, { exclusive });
+    } else {
+      try {
+        await fs.writeFile(
+          filePath,
+          content,
+          // Fail when the file exists rather than truncating it
+          exclusive ? { encoding: 'utf-8', flag: 'wx' } : 'utf-8',
+        );
+      } catch (error) {
+        if (
+          exclusive &&
+          error instanceof Error &&
+          'code' in error &&
+          error.code === 'EEXIST'
+        ) {
+          throw new ZodFileError(
+            'FileExists',
+            `File already exists: ${filePath}`,
+            error,
+          );
+        }
+        throw new ZodFileError(
+          'FileWrite',
+          `Failed to write file: ${filePath}`,
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    }
+  }
+
+  function saveSync(
+    data: T,
+    filePath: string,
+    saveOptions?: SaveSyncOptions,
+  ): void {
+    const { compact = false, atomic = true } = saveOptions ?? {};
+
+    let encoded: unknown;
     try {
-      await fs.writeFile(filePath, content, 'utf-8');
+      encoded = schema.encode(data);
     } catch (error) {
+      if (error instanceof z.core.$ZodAsyncError) {
+        throw asyncError(
+          'Encoding',
+          `Schema encoding is async for file: ${filePath}`,
+          error,
+        );
+      }
+      throw encodingError(filePath, error);
+    }
+
+    const original = compact ? undefined : readDocumentSync(filePath);
+    const content = formatData(
+      encoded,
+      filePath,
+      currentVersion,
+      saveOptions,
+      false,
+      original,
+    );
+
+    // Keep previous versions of the file
+    if (backups > 0) {
+      rotateBackupsSync(filePath, backups);
+    }
+
+    // Write file
+    if (atomic) {
+      writeFileAtomicSync(filePath, content);
+    } else {
+      try {
+        fsSync.writeFileSync(filePath, content, 'utf-8');
+      } catch (error) {
+        throw new ZodFileError(
+          'FileWrite',
+          `Failed to write file: ${filePath}`,
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    }
+  }
+
+  /**
+   * Wraps an error thrown by the encoding of data.
+   */
+  function encodingError(filePath: string, error: unknown): ZodFileError {
+    let message = `Schema encoding failed for file: ${filePath}`;
+    if (error instanceof ZodError) {
+      message = `${message}\n${z.prettifyError(error)}`;
+    }
+    return new ZodFileError(
+      'Encoding',
+      message,
+      error instanceof ZodError ? error : new Error(String(error)),
+    );
+  }
+
+  /**
+   * Turns encoded data into the content of a file.
+   *
+   * @param original - The existing content of the file to apply data onto, if any
+   */
+  function formatData(
+    data: unknown,
+    filePath: string,
+    targetVersion: number | undefined,
+    saveOptions: SaveSyncOptions | undefined,
+    includeOptional: boolean,
+    original: string | undefined,
+  ): string {
+    const { compact = false, annotate = false } = saveOptions ?? {};
+    let encoded = data;
+
+    // Save values that still hold the value of their environment variable
+    // as the value of the file
+    const fileOverrides = overriddenValues.get(filePath);
+    if (targetVersion === currentVersion && fileOverrides !== undefined) {
+      encoded = restoreOverridden(encoded, fileOverrides);
+    }
+
+    // Save values that still hold their resolved value as their references
+    const fileTemplates = templates.get(filePath);
+    if (targetVersion === currentVersion && fileTemplates !== undefined) {
+      encoded = restoreTemplates(encoded, fileTemplates);
+    }
+
+    // Add placeholders for missing optional fields, to comment them out
+    const dataPath = targetVersion !== undefined ? envelope.dataPath : [];
+    let commentedOut: string[][] = [];
+    if (includeOptional && serializer.commentOut !== undefined) {
+      const samples = optionalSamples(schemaAt(targetVersion), encoded);
+      encoded = withFields(encoded, samples);
+      commentedOut = samples.map(({ path }) => [...dataPath, ...path]);
+    }
+
+    // Wrap with version (only if version is configured)
+    const { data: wrapped, header } =
+      targetVersion !== undefined
+        ? envelope.wrap(encoded, targetVersion)
+        : { data: encoded, header: undefined };
+
+    // Save the values of included files as the includes of the file
+    const composition = compositions.get(filePath);
+    const fileData =
+      composition !== undefined
+        ? restoreIncludes(wrapped, composition, filePath)
+        : wrapped;
+
+    // Stringify data, or apply it onto the existing document
+    let content =
+      original !== undefined
+        ? serializer.patch?.(envelope.strip(original), fileData)
+        : undefined;
+    content ??= serializer.stringify(fileData, compact);
+    if (annotate && serializer.annotate !== undefined) {
+      content = serializer.annotate(
+        content,
+        annotationsFor(schemaAt(targetVersion), dataPath),
+      );
+    }
+    if (commentedOut.length > 0 && serializer.commentOut !== undefined) {
+      content = serializer.commentOut(content, commentedOut);
+    }
+    if (header !== undefined) {
+      content = `${header}\n${content}`;
+    }
+    return content;
+  }
+
+  async function update(
+    filePath: string,
+    updater: Updater<T>,
+    updateOptions?: UpdateOptions,
+  ): Promise<T> {
+    const { lock: lockOptions = {}, ...options } = updateOptions ?? {};
+    return withLock(filePath, lockOptions, async () => {
+      const current = await load(filePath, options);
+      const updated = await updater(current);
+      await save(updated, filePath, options);
+      return updated;
+    });
+  }
+
+  function watch(
+    filePath: string,
+    listener: WatchListener<T>,
+    watchOptions?: WatchOptions,
+  ): WatchHandle<T> {
+    return watchFile(
+      filePath,
+      (p) => load(p, { throwOnError: true }),
+      listener,
+      watchOptions ?? {},
+    );
+  }
+
+  async function open(
+    filePath: string,
+    openOptions?: OpenOptions,
+  ): Promise<ZodFileDocument<T>> {
+    const { autosave, onError, ...options } = openOptions ?? {};
+    const initial = await load(filePath, options);
+    return createDocument(
+      filePath,
+      initial,
+      (p) => load(p, options),
+      (data, p) => save(data, p, options),
+      { autosave, onError },
+    );
+  }
+
+  /**
+   * Converts data from the current version to an older version by walking
+   * the migration chain backwards.
+   *
+   * @returns The encoded data at the target version
+   */
+  async function downgradeData(
+    data: T,
+    filePath: string,
+    targetVersion: number,
+  ): Promise<unknown> {
+    if (
+      currentVersion === undefined ||
+      !Number.isInteger(targetVersion) ||
+      targetVersion < firstVersion ||
+      targetVersion > currentVersion
+    ) {
       throw new ZodFileError(
-        'FileWrite',
-        `Failed to write file: ${filePath}`,
-        error instanceof Error ? error : new Error(String(error)),
+        'UnsupportedVersion',
+        `Cannot save file at version ${targetVersion}: ${filePath}. Supported versions are ${firstVersion} to ${currentVersion}`,
       );
     }
+
+    let value: unknown = data;
+    let encoded: unknown;
+    for (
+      let version = currentVersion - 1;
+      version >= targetVersion;
+      version--
+    ) {
+      const migration = sortedMigrations.find((m) => m.version === version);
+      if (migration?.down === undefined) {
+        throw new ZodFileError(
+          'Migration',
+          `No downgrade function for migration from version ${version} in file: ${filePath}`,
+        );
+      }
+
+      try {
+        value = await migration.down(value);
+        // Validate against the step's schema, encoding for the file
+        encoded = await migration.schema.encodeAsync(value);
+      } catch (error) {
+        let message = `Downgrade to version ${version} failed in file: ${filePath}`;
+        if (error instanceof ZodError) {
+          message = `${message}\n${z.prettifyError(error)}`;
+        }
+        throw new ZodFileError(
+          'Migration',
+          message,
+          error instanceof Error ? error : new Error(String(error)),
+        );
+      }
+    }
+    return encoded;
+  }
+
+  async function downgrade(
+    filePath: string,
+    version: number,
+    saveOptions?: Omit<SaveOptions, 'version'>,
+  ): Promise<void> {
+    const { data } = await loadFile(filePath);
+    await save(data, filePath, { ...saveOptions, version });
+  }
+
+  async function init(filePath: string, initOptions?: InitOptions): Promise<T> {
+    const {
+      overwrite = false,
+      includeOptional = false,
+      ...saveOptions
+    } = initOptions ?? {};
+
+    // Fail early, then again when creating the file, in case another process
+    // creates it in between
+    if (!overwrite && (await fileExists(filePath))) {
+      throw new ZodFileError('FileExists', `File already exists: ${filePath}`);
+    }
+
+    let data: T;
+    if (defaultValue !== undefined) {
+      data = getDefault();
+    } else {
+      // Let the schema fill in its own defaults
+      const result = await schema.safeParseAsync(defaultsInput(schema));
+      if (!result.success) {
+        throw new ZodFileError(
+          'Validation',
+          `No default value for file: ${filePath}\n${z.prettifyError(result.error)}`,
+          result.error,
+        );
+      }
+      data = result.data;
+    }
+
+    await writeData(data, filePath, saveOptions, includeOptional, !overwrite);
+    return data;
   }
 
   function getDefault(): T {
@@ -547,6 +2628,16 @@ export function createZodFile<
 
   return {
     load,
+    loadWithInfo,
+    planMigration,
+    dryRunMigration,
     save,
+    loadSync,
+    saveSync,
+    downgrade,
+    init,
+    update,
+    watch,
+    open,
   };
 }
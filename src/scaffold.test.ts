@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+
+import { defaultsInput, optionalSamples, sampleValue } from './scaffold';
+
+describe('defaultsInput', () => {
+  it('should fill required objects so that their defaults apply', () => {
+    const schema = z.object({
+      theme: z.string().default('light'),
+      server: z.object({
+        port: z.number().default(8080),
+        tls: z.object({ enabled: z.boolean().default(false) }),
+      }),
+      proxy: z.object({ url: z.string() }).optional(),
+    });
+
+    const input = defaultsInput(schema);
+
+    expect(input).toEqual({ server: { tls: {} } });
+    expect(schema.parse(input)).toEqual({
+      theme: 'light',
+      server: { port: 8080, tls: { enabled: false } },
+    });
+  });
+});
+
+describe('sampleValue', () => {
+  it.each([
+    [z.string().default('x'), 'x'],
+    [z.enum(['a', 'b']), 'a'],
+    [z.literal(3), 3],
+    [z.string(), ''],
+    [z.number().int(), 0],
+    [z.boolean(), false],
+    [z.array(z.string()), []],
+    [z.record(z.string(), z.number()), {}],
+    [z.date(), undefined],
+  ])('should return a placeholder for %#', (schema, expected) => {
+    expect(sampleValue(schema)).toEqual(expected);
+  });
+
+  it('should fill the required fields of objects', () => {
+    expect(
+      sampleValue(z.object({ host: z.string(), port: z.number().optional() })),
+    ).toEqual({ host: '' });
+  });
+});
+
+describe('optionalSamples', () => {
+  it('should find missing optional fields', () => {
+    const schema = z.object({
+      name: z.string(),
+      nickname: z.string().optional(),
+      server: z.object({
+        port: z.number(),
+        timeout: z.number().default(30).optional(),
+        proxy: z.string().optional(),
+      }),
+    });
+
+    expect(
+      optionalSamples(schema, { name: 'a', server: { port: 80 } }),
+    ).toEqual([
+      { path: ['nickname'], value: '' },
+      { path: ['server', 'proxy'], value: '' },
+    ]);
+  });
+});
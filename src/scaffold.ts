@@ -0,0 +1,106 @@
+import { z } from 'zod';
+
+import { allowedValues, inspectField } from './annotate';
+import { type FieldValue, isPlainObject } from './patch';
+
+/**
+ * Builds the input from which schema defaults produce a complete value:
+ * required object fields without a default are filled with an empty object,
+ * so that the defaults of their own fields apply.
+ *
+ * @param schema - The object schema of the file
+ * @returns The input to parse with the schema
+ */
+export function defaultsInput(schema: z.ZodObject): Record<string, unknown> {
+  const input: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(schema.shape)) {
+    const { defaultValue, optional, inner } = inspectField(field as z.ZodType);
+    if (
+      defaultValue === undefined &&
+      !optional &&
+      inner instanceof z.ZodObject
+    ) {
+      input[key] = defaultsInput(inner);
+    }
+  }
+  return input;
+}
+
+/**
+ * Returns a placeholder value for a schema, in the encoded form written to
+ * files: the default value if there is one, the first allowed value of
+ * enums and literals, or an empty value of the schema's type.
+ *
+ * @param schema - The field schema
+ * @returns The placeholder, or undefined for types without one
+ */
+export function sampleValue(schema: z.ZodType): unknown {
+  const { defaultValue, inner } = inspectField(schema);
+  if (defaultValue !== undefined) {
+    return defaultValue.value;
+  }
+  const values = allowedValues(inner);
+  if (values !== undefined) {
+    return values[0];
+  }
+  if (inner instanceof z.ZodObject) {
+    const sample: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(inner.shape)) {
+      if (!inspectField(field as z.ZodType).optional) {
+        sample[key] = sampleValue(field as z.ZodType);
+      }
+    }
+    return sample;
+  }
+  if (inner instanceof z.ZodString) {
+    return '';
+  }
+  if (inner instanceof z.ZodNumber) {
+    return 0;
+  }
+  if (inner instanceof z.ZodBoolean) {
+    return false;
+  }
+  if (inner instanceof z.ZodArray) {
+    return [];
+  }
+  if (inner instanceof z.ZodRecord) {
+    return {};
+  }
+  return undefined;
+}
+
+/**
+ * Finds the optional fields of a schema that are missing from encoded data,
+ * with a placeholder value for each, including the fields of nested objects
+ * present in the data.
+ *
+ * @param schema - The object schema of the data
+ * @param data - The encoded data
+ * @param path - Keys leading to the data in the file
+ * @returns The missing optional fields that have a placeholder
+ */
+export function optionalSamples(
+  schema: z.ZodObject,
+  data: unknown,
+  path: string[] = [],
+): FieldValue[] {
+  if (!isPlainObject(data)) {
+    return [];
+  }
+  const samples: FieldValue[] = [];
+  for (const [key, field] of Object.entries(schema.shape)) {
+    const fieldPath = [...path, key];
+    const { optional, inner } = inspectField(field as z.ZodType);
+    const value = data[key];
+    if (value === undefined && optional) {
+      const sample = sampleValue(field as z.ZodType);
+      if (sample !== undefined) {
+        samples.push({ path: fieldPath, value: sample });
+      }
+    } else if (inner instanceof z.ZodObject) {
+      samples.push(...optionalSamples(inner, value, fieldPath));
+    }
+  }
+  return samples;
+}
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+
+import { annotateTOML, commentOutTOML, patchTOML } from './toml-patch';
+
+const document = `# Application settings
+name = "app" # display name
+debug = false
+
+[server]
+# Where to listen
+host = "localhost"
+ports = [
+  80, # http
+  443,
+]
+
+[server.tls]
+enabled = false
+
+[legacy]
+option = 1
+
+# End of settings
+`;
+
+const data = {
+  name: 'app',
+  debug: false,
+  server: { host: 'localhost', ports: [80, 443], tls: { enabled: false } },
+  legacy: { option: 1 },
+};
+
+describe('patchTOML', () => {
+  it('should return the document unchanged when nothing changed', () => {
+    expect(patchTOML(document, data)).toBe(document);
+  });
+
+  it('should replace changed values and keep comments', () => {
+    expect(
+      patchTOML(document, {
+        ...data,
+        name: 'renamed',
+        server: { host: 'example.com', ports: [8080], tls: { enabled: true } },
+      }),
+    ).toBe(`# Application settings
+name = "renamed" # display name
+debug = false
+
+[server]
+# Where to listen
+host = "example.com"
+ports = [ 8080 ]
+
+[server.tls]
+enabled = true
+
+[legacy]
+option = 1
+
+# End of settings
+`);
+  });
+
+  it('should remove deleted keys and tables', () => {
+    expect(
+      patchTOML(document, {
+        name: 'app',
+        server: { host: 'localhost', ports: [80, 443] },
+      }),
+    ).toBe(`# Application settings
+name = "app" # display name
+
+[server]
+# Where to listen
+host = "localhost"
+ports = [
+  80, # http
+  443,
+]
+
+# End of settings
+`);
+  });
+
+  it('should insert added keys into their table and append added tables', () => {
+    expect(
+      patchTOML(document, {
+        ...data,
+        mode: 'dark',
+        server: { ...data.server, timeout: 30 },
+        cache: { size: 10 },
+      }),
+    ).toBe(`# Application settings
+name = "app" # display name
+debug = false
+mode = "dark"
+
+[server]
+# Where to listen
+host = "localhost"
+ports = [
+  80, # http
+  443,
+]
+timeout = 30
+
+[server.tls]
+enabled = false
+
+[legacy]
+option = 1
+
+# End of settings
+
+[cache]
+size = 10
+`);
+  });
+
+  it('should replace inline tables', () => {
+    expect(
+      patchTOML('point = { x = 1, y = 2 }\n', { point: { x: 1, y: 3 } }),
+    ).toBe('point = { x = 1, y = 3 }\n');
+  });
+
+  it('should give up on arrays of tables', () => {
+    const content = '[[servers]]\nhost = "a"\n\n[[servers]]\nhost = "b"\n';
+
+    expect(
+      patchTOML(content, { servers: [{ host: 'a' }, { host: 'c' }] }),
+    ).toBeUndefined();
+  });
+
+  it('should give up on invalid documents', () => {
+    expect(patchTOML('invalid = [', { a: 1 })).toBeUndefined();
+  });
+});
+
+describe('annotateTOML', () => {
+  const annotations = [
+    { path: ['name'], lines: ['Display name'] },
+    { path: ['server'], lines: ['Server options'] },
+    { path: ['server', 'port'], lines: ['Port to listen on', 'Default: 80'] },
+    { path: ['missing'], lines: ['Not in the file'] },
+  ];
+
+  it('should write comments above keys and table headers', () => {
+    expect(annotateTOML('name = "app"\n\n[server]\nport = 8080\n', annotations))
+      .toBe(`# Display name
+name = "app"
+
+# Server options
+[server]
+# Port to listen on
+# Default: 80
+port = 8080
+`);
+  });
+
+  it('should not repeat existing comments', () => {
+    const content = annotateTOML(
+      'name = "app"\n\n[server]\nport = 8080\n',
+      annotations,
+    );
+
+    expect(annotateTOML(content, annotations)).toBe(content);
+  });
+});
+
+describe('commentOutTOML', () => {
+  it('should comment out keys and tables with their values', () => {
+    expect(
+      commentOutTOML(
+        'name = "app"\nnick = ""\n\n[proxy]\nurl = ""\n\n[proxy.auth]\nuser = ""\n\n[server]\nport = 80\n',
+        [['nick'], ['proxy']],
+      ),
+    ).toBe(
+      'name = "app"\n# nick = ""\n\n# [proxy]\n# url = ""\n\n# [proxy.auth]\n# user = ""\n\n[server]\nport = 80\n',
+    );
+  });
+});
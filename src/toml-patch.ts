@@ -0,0 +1,515 @@
+import * as TOML from 'smol-toml';
+
+import { type Annotation, commentLines, hasComments } from './annotate';
+import {
+  type LineEdit,
+  applyEdits,
+  definedKeys,
+  isEqual,
+  isPlainObject,
+  samePath,
+  startsWith,
+} from './patch';
+
+/**
+ * A table header and the lines up to the next header.
+ */
+type Section = {
+  path: string[];
+  /**
+   * Whether this is an element of an array of tables.
+   */
+  array: boolean;
+  /**
+   * Index of the header line, or -1 for the root table.
+   */
+  header: number;
+  /**
+   * Index of the next header line.
+   */
+  end: number;
+  /**
+   * Index after the last key/value pair of the section.
+   */
+  lastEntryEnd: number;
+};
+
+/**
+ * A `key = value` pair, whose value may span several lines.
+ */
+type Entry = {
+  path: string[];
+  section: Section;
+  /**
+   * Index of the line of the key.
+   */
+  line: number;
+  /**
+   * Column of the value on the key line.
+   */
+  valueStart: number;
+  /**
+   * Index of the last line of the value.
+   */
+  endLine: number;
+  /**
+   * Column after the value on its last line, before any comment.
+   */
+  valueEnd: number;
+};
+
+const bareKey = /^[A-Za-z0-9_-]+/;
+
+/**
+ * Parses a dotted key at the start of a string.
+ *
+ * @returns The key parts and the length of the key, or undefined if there is no key
+ */
+function parseKey(
+  text: string,
+): { parts: string[]; length: number } | undefined {
+  const parts: string[] = [];
+  let pos = 0;
+  for (;;) {
+    pos += text.slice(pos).length - text.slice(pos).trimStart().length;
+    const rest = text.slice(pos);
+    const bare = bareKey.exec(rest);
+    const quoted = /^"(?:[^"\\]|\\.)*"|^'[^']*'/.exec(rest);
+    if (bare !== null) {
+      parts.push(bare[0]);
+      pos += bare[0].length;
+    } else if (quoted !== null) {
+      const token = quoted[0];
+      parts.push(
+        token.startsWith('"')
+          ? (JSON.parse(token) as string)
+          : token.slice(1, -1),
+      );
+      pos += token.length;
+    } else {
+      return undefined;
+    }
+    const afterPart = text.slice(pos);
+    const dot = /^\s*\.\s*/.exec(afterPart);
+    if (dot === null) {
+      return { parts, length: pos };
+    }
+    pos += dot[0].length;
+  }
+}
+
+/**
+ * Finds the end of a value that may span several lines.
+ *
+ * @returns The index of the last line of the value and the column after it
+ */
+function scanValue(
+  lines: string[],
+  line: number,
+  column: number,
+): { endLine: number; valueEnd: number } | undefined {
+  let depth = 0;
+  let string: string | undefined;
+  for (let i = line; i < lines.length; i++) {
+    const text = lines[i];
+    let valueEnd = text.length;
+    for (let j = i === line ? column : 0; j < text.length; j++) {
+      const char = text[j];
+      if (string !== undefined) {
+        if (char === '\\' && !string.startsWith("'")) {
+          j++;
+        } else if (text.startsWith(string, j)) {
+          j += string.length - 1;
+          string = undefined;
+        }
+      } else if (text.startsWith('"""', j) || text.startsWith("'''", j)) {
+        string = text.slice(j, j + 3);
+        j += 2;
+      } else if (char === '"' || char === "'") {
+        string = char;
+      } else if (char === '[' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === '}') {
+        depth--;
+      } else if (char === '#') {
+        valueEnd = j;
+        break;
+      }
+    }
+    if (string !== undefined && string.length === 1) {
+      // Single-line strings cannot span lines
+      return undefined;
+    }
+    if (depth === 0 && string === undefined) {
+      return { endLine: i, valueEnd: text.slice(0, valueEnd).trimEnd().length };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the tables and key/value pairs of a TOML document.
+ */
+function indexDocument(
+  lines: string[],
+): { sections: Section[]; entries: Entry[] } | undefined {
+  const root: Section = {
+    path: [],
+    array: false,
+    header: -1,
+    end: lines.length,
+    lastEntryEnd: -1,
+  };
+  const sections = [root];
+  const entries: Entry[] = [];
+  let section = root;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      continue;
+    }
+
+    if (trimmed.startsWith('[')) {
+      const array = trimmed.startsWith('[[');
+      const key = parseKey(trimmed.slice(array ? 2 : 1));
+      if (key === undefined) {
+        return undefined;
+      }
+      section.end = i;
+      section = {
+        path: key.parts,
+        array,
+        header: i,
+        end: lines.length,
+        lastEntryEnd: i + 1,
+      };
+      sections.push(section);
+      continue;
+    }
+
+    const key = parseKey(line);
+    if (key === undefined) {
+      return undefined;
+    }
+    const equals = /^\s*=\s*/.exec(line.slice(key.length));
+    if (equals === null) {
+      return undefined;
+    }
+    const valueStart = key.length + equals[0].length;
+    const value = scanValue(lines, i, valueStart);
+    if (value === undefined) {
+      return undefined;
+    }
+    entries.push({
+      path: [...section.path, ...key.parts],
+      section,
+      line: i,
+      valueStart,
+      ...value,
+    });
+    section.lastEntryEnd = value.endLine + 1;
+    i = value.endLine;
+  }
+  return { sections, entries };
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Formats a value to fit on a single line.
+ */
+function formatValue(value: unknown): string | undefined {
+  if (isPlainObject(value)) {
+    const pairs: string[] = [];
+    for (const key of definedKeys(value)) {
+      const text = formatValue(value[key]);
+      if (text === undefined) {
+        return undefined;
+      }
+      pairs.push(`${formatKey(key)} = ${text}`);
+    }
+    return pairs.length > 0 ? `{ ${pairs.join(', ')} }` : '{}';
+  }
+  const text = TOML.stringify({ v: value }).trim();
+  return text.startsWith('v = ') && !text.includes('\n')
+    ? text.slice(4)
+    : undefined;
+}
+
+/**
+ * Applies changes to a TOML document, keeping its comments, key order and
+ * blank lines.
+ *
+ * Changed values are replaced in place, removed keys and tables are deleted,
+ * added keys are inserted at the end of their table, and added tables are
+ * appended to the end of the document. Arrays of tables cannot be patched.
+ *
+ * @param original - The content of the existing file
+ * @param data - The new data
+ * @returns The patched content, or undefined if the document cannot be patched
+ */
+export function patchTOML(original: string, data: unknown): string | undefined {
+  let previous: unknown;
+  try {
+    previous = TOML.parse(original);
+  } catch {
+    return undefined;
+  }
+  if (!isPlainObject(previous) || !isPlainObject(data)) {
+    return undefined;
+  }
+
+  const lines = original.split('\n');
+  const indexed = indexDocument(lines);
+  if (indexed === undefined) {
+    return undefined;
+  }
+  const { sections, entries } = indexed;
+  const edits: LineEdit[] = [];
+  const appended: string[] = [];
+
+  function replaceValue(entry: Entry, text: string): void {
+    const before = lines[entry.line].slice(0, entry.valueStart);
+    const after = lines[entry.endLine].slice(entry.valueEnd);
+    edits.push({
+      start: entry.line,
+      end: entry.endLine + 1,
+      lines: [`${before}${text}${after}`],
+      depth: entry.path.length,
+    });
+  }
+
+  function remove(path: string[]): boolean {
+    const removed = (section: Section) =>
+      section.header >= 0 && startsWith(section.path, path);
+    let found = false;
+    for (const entry of entries) {
+      if (
+        startsWith(entry.path, path) &&
+        !entry.section.array &&
+        !removed(entry.section)
+      ) {
+        edits.push({
+          start: entry.line,
+          end: entry.endLine + 1,
+          lines: [],
+          depth: entry.path.length,
+        });
+        found = true;
+      }
+    }
+    for (const section of sections) {
+      if (removed(section)) {
+        // Keep the comments before the next table
+        let end = section.lastEntryEnd;
+        while (end < section.end && lines[end].trim() === '') {
+          end++;
+        }
+        edits.push({
+          start: section.header,
+          end,
+          lines: [],
+          depth: section.path.length,
+        });
+        found = true;
+      }
+    }
+    return found;
+  }
+
+  function insert(path: string[], added: Record<string, unknown>): boolean {
+    const section = sections.find(
+      (candidate) => !candidate.array && samePath(candidate.path, path),
+    );
+    const inserted: string[] = [];
+    for (const key of definedKeys(added)) {
+      const value = added[key];
+      if (isPlainObject(value)) {
+        let nested: Record<string, unknown> = value;
+        for (const part of [...path, key].reverse()) {
+          nested = { [part]: nested };
+        }
+        appended.push('', ...TOML.stringify(nested).trimEnd().split('\n'));
+        continue;
+      }
+      const text = formatValue(value);
+      if (text === undefined || section === undefined) {
+        return false;
+      }
+      inserted.push(`${formatKey(key)} = ${text}`);
+    }
+    if (inserted.length > 0 && section !== undefined) {
+      const at =
+        section.lastEntryEnd >= 0
+          ? section.lastEntryEnd
+          : (sections[1]?.header ?? lines.length);
+      edits.push({
+        start: at,
+        end: at,
+        lines: inserted,
+        depth: path.length + 1,
+      });
+    }
+    return true;
+  }
+
+  function patchTable(
+    path: string[],
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+  ): boolean {
+    const added: Record<string, unknown> = {};
+    for (const key of definedKeys(before)) {
+      const childPath = [...path, key];
+      const entry = entries.find((candidate) =>
+        samePath(candidate.path, childPath),
+      );
+      if (entry?.section.array === true) {
+        return false;
+      }
+      if (after[key] === undefined) {
+        if (!remove(childPath)) {
+          return false;
+        }
+      } else if (isEqual(before[key], after[key])) {
+        continue;
+      } else if (entry !== undefined) {
+        const text = formatValue(after[key]);
+        if (text === undefined) {
+          return false;
+        }
+        replaceValue(entry, text);
+      } else if (isPlainObject(before[key]) && isPlainObject(after[key])) {
+        if (!patchTable(childPath, before[key], after[key])) {
+          return false;
+        }
+      } else {
+        return false;
+      }
+    }
+    for (const key of definedKeys(after)) {
+      if (before[key] === undefined) {
+        added[key] = after[key];
+      }
+    }
+    return insert(path, added);
+  }
+
+  if (!patchTable([], previous, data)) {
+    return undefined;
+  }
+  const result = applyEdits(lines, edits);
+  if (appended.length > 0) {
+    // Keep the final newline after the appended tables
+    const finalNewline = result[result.length - 1] === '';
+    if (finalNewline) {
+      result.pop();
+    }
+    result.push(...appended);
+    if (finalNewline) {
+      result.push('');
+    }
+  }
+  return result.join('\n');
+}
+
+/**
+ * Writes comments above the keys and table headers of a TOML document.
+ * Comments that are already there are not repeated.
+ *
+ * @param content - The TOML document
+ * @param annotations - The comments to write
+ * @returns The annotated document
+ */
+export function annotateTOML(
+  content: string,
+  annotations: Annotation[],
+): string {
+  const lines = content.split('\n');
+  const indexed = indexDocument(lines);
+  if (indexed === undefined) {
+    return content;
+  }
+  const { sections, entries } = indexed;
+  const edits: LineEdit[] = [];
+  for (const annotation of annotations) {
+    const section = sections.find(
+      (candidate) =>
+        candidate.header >= 0 &&
+        !candidate.array &&
+        samePath(candidate.path, annotation.path),
+    );
+    const entry = entries.find(
+      (candidate) =>
+        !candidate.section.array && samePath(candidate.path, annotation.path),
+    );
+    const line = section?.header ?? entry?.line;
+    if (line === undefined) {
+      continue;
+    }
+    const indent = /^\s*/.exec(lines[line])?.[0];
+    const comments = commentLines(annotation, '#', indent);
+    if (!hasComments(lines, line, comments)) {
+      edits.push({
+        start: line,
+        end: line,
+        lines: comments,
+        depth: annotation.path.length,
+      });
+    }
+  }
+  return applyEdits(lines, edits).join('\n');
+}
+
+/**
+ * Comments out keys and tables of a TOML document, with their values.
+ *
+ * @param content - The TOML document
+ * @param paths - The paths of the keys and tables to comment out
+ * @returns The document with the keys and tables commented out
+ */
+export function commentOutTOML(content: string, paths: string[][]): string {
+  const lines = content.split('\n');
+  const indexed = indexDocument(lines);
+  if (indexed === undefined) {
+    return content;
+  }
+  const { sections, entries } = indexed;
+  const ranges: { start: number; end: number; depth: number }[] = [];
+  for (const path of paths) {
+    for (const section of sections) {
+      if (section.header >= 0 && startsWith(section.path, path)) {
+        ranges.push({
+          start: section.header,
+          end: section.lastEntryEnd,
+          depth: section.path.length,
+        });
+      }
+    }
+    const entry = entries.find(
+      (candidate) => !candidate.section.array && samePath(candidate.path, path),
+    );
+    if (entry !== undefined) {
+      ranges.push({
+        start: entry.line,
+        end: entry.endLine + 1,
+        depth: entry.path.length,
+      });
+    }
+  }
+  const edits = ranges.map(({ start, end, depth }) => ({
+    start,
+    end,
+    lines: lines
+      .slice(start, end)
+      .map((line) =>
+        line.trim() === '' ? line : line.replace(/^(\s*)/, '$1# '),
+      ),
+    depth,
+  }));
+  return applyEdits(lines, edits).join('\n');
+}
@@ -8,12 +8,18 @@ import { createZodTOML } from './toml';
 
 vi.mock('node:fs/promises');
 const mockFsPromises = vi.mocked(fs);
+const mockFileHandle = {
+  sync: vi.fn(),
+  close: vi.fn(),
+} as unknown as fs.FileHandle;
 
 const testFile = '/tmp/zod-file-test.toml';
 
 describe('createZodTOML', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    mockFsPromises.open.mockResolvedValue(mockFileHandle);
+    mockFsPromises.realpath.mockRejectedValue(new Error('ENOENT'));
   });
 
   describe('basic load and save', () => {
@@ -114,6 +120,56 @@ describe('createZodTOML', () => {
     });
   });
 
+  describe('preserving formatting', () => {
+    it('should keep comments when updating a file', async () => {
+      const schema = z.object({
+        theme: z.string(),
+        editor: z.object({ fontSize: z.number() }),
+      });
+      const store = createZodTOML({ schema, preserveFormatting: true });
+      mockFsPromises.readFile.mockResolvedValue(
+        '# Settings\ntheme = "dark" # or light\n\n[editor]\nfontSize = 12\n',
+      );
+
+      const data = await store.load(testFile);
+      await store.save({ ...data, editor: { fontSize: 14 } }, testFile);
+
+      const writtenContent = mockFsPromises.writeFile.mock
+        .calls[0]?.[1] as string;
+      expect(writtenContent).toBe(
+        '# Settings\ntheme = "dark" # or light\n\n[editor]\nfontSize = 14\n',
+      );
+    });
+  });
+
+  describe('annotations', () => {
+    it('should write schema descriptions as comments', async () => {
+      const schema = z.object({
+        theme: z.enum(['light', 'dark']).describe('Color theme'),
+        editor: z
+          .object({ fontSize: z.number().default(12) })
+          .describe('Editor options'),
+      });
+      const store = createZodTOML({ schema });
+
+      await store.save({ theme: 'dark', editor: { fontSize: 14 } }, testFile, {
+        annotate: true,
+      });
+
+      const writtenContent = mockFsPromises.writeFile.mock
+        .calls[0]?.[1] as string;
+      expect(writtenContent).toBe(`# Color theme
+# Allowed values: "light", "dark"
+theme = "dark"
+
+# Editor options
+[editor]
+# Default: 12
+fontSize = 14
+`);
+    });
+  });
+
   describe('TOML parsing errors', () => {
     it('should throw InvalidFormat for malformed TOML', async () => {
       const schema = z.object({
@@ -1,13 +1,22 @@
 import * as TOML from 'smol-toml';
 
+import { type Annotation } from './annotate';
 import {
   type Serializer,
   type ZodFile,
   type ZodFileOptions,
   createZodFile,
 } from './persistence';
+import { annotateTOML, commentOutTOML, patchTOML } from './toml-patch';
 
-const TOMLSerializer: Serializer = {
+/**
+ * Built-in TOML serializer.
+ *
+ * Uses `smol-toml`. TOML has no compact form, so compact is ignored.
+ * Supports patching existing files to keep their comments and layout, and
+ * annotating keys with comments.
+ */
+export const tomlSerializer: Serializer = {
   formatName: 'TOML',
   parse(content: string): unknown {
     return TOML.parse(content);
@@ -15,6 +24,16 @@ const TOMLSerializer: Serializer = {
   stringify(data: unknown, _compact: boolean): string {
     return TOML.stringify(data);
   },
+  commentPrefix: '#',
+  patch(original: string, data: unknown): string | undefined {
+    return patchTOML(original, data);
+  },
+  annotate(content: string, annotations: Annotation[]): string {
+    return annotateTOML(content, annotations);
+  },
+  commentOut(content: string, paths: string[][]): string {
+    return commentOutTOML(content, paths);
+  },
 } as const;
 
 /**
@@ -69,5 +88,5 @@ export function createZodTOML<
   V extends number,
   T extends Record<string, unknown>,
 >(options: ZodFileOptions<V, T>): ZodFile<T> {
-  return createZodFile(options, TOMLSerializer);
+  return createZodFile(options, tomlSerializer);
 }
@@ -0,0 +1,185 @@
+import { EventEmitter } from 'node:events';
+import fs from 'node:fs';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ZodFileError } from './errors';
+import { watchFile } from './watch';
+
+vi.mock('node:fs');
+const mockFs = vi.mocked(fs);
+
+const testFile = '/tmp/zod-file-test.json';
+
+type ChangeCallback = (event: string, fileName: string | null) => void;
+
+describe('watchFile', () => {
+  let watcher: EventEmitter & { close: ReturnType<typeof vi.fn> };
+  let emitChange: ChangeCallback;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers();
+    watcher = Object.assign(new EventEmitter(), { close: vi.fn() });
+    mockFs.watch.mockImplementation(((
+      _dir: string,
+      callback: ChangeCallback,
+    ) => {
+      emitChange = callback;
+      return watcher;
+    }) as unknown as typeof fs.watch);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should watch the parent directory and load the file immediately', async () => {
+    const load = vi.fn().mockResolvedValue({ theme: 'light' });
+    const listener = vi.fn();
+
+    const handle = watchFile(testFile, load, listener, {});
+    await vi.runAllTimersAsync();
+
+    expect(mockFs.watch).toHaveBeenCalledWith('/tmp', expect.any(Function));
+    expect(load).toHaveBeenCalledWith(testFile);
+    expect(listener).toHaveBeenCalledWith({ theme: 'light' }, undefined);
+    expect(handle.current).toEqual({ theme: 'light' });
+  });
+
+  it('should debounce bursts of changes into a single reload', async () => {
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce({ theme: 'light' })
+      .mockResolvedValueOnce({ theme: 'dark' });
+    const listener = vi.fn();
+
+    watchFile(testFile, load, listener, { debounce: 50 });
+    await vi.runAllTimersAsync();
+
+    emitChange('change', 'zod-file-test.json');
+    await vi.advanceTimersByTimeAsync(20);
+    emitChange('rename', 'zod-file-test.json');
+    await vi.advanceTimersByTimeAsync(20);
+    emitChange('change', 'zod-file-test.json');
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenLastCalledWith(
+      { theme: 'dark' },
+      { theme: 'light' },
+    );
+  });
+
+  it('should ignore changes to other files in the directory', async () => {
+    const load = vi.fn().mockResolvedValue({ theme: 'light' });
+
+    watchFile(testFile, load, vi.fn(), {});
+    await vi.runAllTimersAsync();
+
+    emitChange('rename', '.zod-file-test.json.1234.abcd.tmp');
+    emitChange('change', 'other.json');
+    await vi.runAllTimersAsync();
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reload when the platform does not report the file name', async () => {
+    const load = vi.fn().mockResolvedValue({ theme: 'light' });
+
+    watchFile(testFile, load, vi.fn(), {});
+    await vi.runAllTimersAsync();
+
+    emitChange('change', null);
+    await vi.runAllTimersAsync();
+
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the last valid value and report errors on invalid edits', async () => {
+    const error = new ZodFileError('Validation', 'Schema validation failed');
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce({ theme: 'light' })
+      .mockRejectedValueOnce(error);
+    const listener = vi.fn();
+    const onError = vi.fn();
+
+    const handle = watchFile(testFile, load, listener, { onError });
+    await vi.runAllTimersAsync();
+
+    emitChange('change', 'zod-file-test.json');
+    await vi.runAllTimersAsync();
+
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(handle.current).toEqual({ theme: 'light' });
+  });
+
+  it('should report listener errors separately from load errors', async () => {
+    const error = new Error('Listener failed');
+    const load = vi
+      .fn()
+      .mockResolvedValueOnce({ theme: 'light' })
+      .mockResolvedValueOnce({ theme: 'dark' });
+    const listener = vi.fn().mockImplementationOnce(() => {
+      throw error;
+    });
+    const onError = vi.fn();
+    const onListenerError = vi.fn();
+
+    const handle = watchFile(testFile, load, listener, {
+      onError,
+      onListenerError,
+    });
+    await vi.runAllTimersAsync();
+
+    expect(onListenerError).toHaveBeenCalledWith(error);
+    expect(onError).not.toHaveBeenCalled();
+    expect(handle.current).toEqual({ theme: 'light' });
+
+    emitChange('change', 'zod-file-test.json');
+    await vi.runAllTimersAsync();
+
+    expect(listener).toHaveBeenLastCalledWith(
+      { theme: 'dark' },
+      { theme: 'light' },
+    );
+  });
+
+  it('should wrap watcher errors in a ZodFileError', async () => {
+    const onError = vi.fn();
+
+    watchFile(testFile, vi.fn().mockResolvedValue({}), vi.fn(), { onError });
+    await vi.runAllTimersAsync();
+
+    watcher.emit('error', new Error('EMFILE'));
+
+    expect(onError).toHaveBeenCalledWith(expect.any(ZodFileError));
+    expect((onError.mock.calls[0]?.[0] as ZodFileError).code).toBe('FileRead');
+  });
+
+  it('should stop reloading after close', async () => {
+    const load = vi.fn().mockResolvedValue({ theme: 'light' });
+
+    const handle = watchFile(testFile, load, vi.fn(), {});
+    await vi.runAllTimersAsync();
+
+    emitChange('change', 'zod-file-test.json');
+    handle.close();
+    await vi.runAllTimersAsync();
+
+    expect(watcher.close).toHaveBeenCalledTimes(1);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw FileRead when the directory cannot be watched', () => {
+    mockFs.watch.mockImplementation(() => {
+      throw new Error('ENOENT');
+    });
+
+    expect(() => watchFile(testFile, vi.fn(), vi.fn(), {})).toThrow(
+      ZodFileError,
+    );
+  });
+});
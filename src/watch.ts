@@ -0,0 +1,199 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+import { ZodFileError } from './errors';
+
+/**
+ * Options for the `watch` method.
+ *
+ * @example
+ * ```typescript
+ * const watcher = store.watch('./config.json', (config) => apply(config), {
+ *   debounce: 200,
+ *   onError: (error) => console.warn(`Ignoring invalid edit: ${error.message}`),
+ * });
+ * ```
+ */
+export type WatchOptions = {
+  /**
+   * Delay in milliseconds to wait after the last change event before
+   * reloading the file. Editors often emit several events per save.
+   *
+   * @defaultValue 100
+   */
+  debounce?: number;
+
+  /**
+   * Called when the file cannot be loaded, e.g. because an edit made it
+   * invalid. The last valid value is kept and the listener is not called.
+   *
+   * @param error - The error that prevented loading the file
+   */
+  onError?: (error: ZodFileError) => void;
+
+  /**
+   * Called when the listener throws. The new value is kept as the current
+   * value. Without this option, errors thrown by the listener are not caught
+   * and surface as unhandled rejections.
+   *
+   * @param error - The error thrown by the listener
+   */
+  onListenerError?: (error: unknown) => void;
+};
+
+/**
+ * Called with each new valid value of a watched file.
+ *
+ * @typeParam T - The data type managed by the ZodFile instance
+ * @param data - The newly loaded data
+ * @param previous - The last valid data, or undefined on the first load
+ */
+export type WatchListener<T> = (data: T, previous: T | undefined) => void;
+
+/**
+ * A handle to a running file watcher, returned by `watch`.
+ *
+ * @typeParam T - The data type managed by the ZodFile instance
+ */
+export type WatchHandle<T> = {
+  /**
+   * The last valid value loaded from the file, or undefined if the file has
+   * not been loaded successfully yet.
+   */
+  readonly current: T | undefined;
+
+  /**
+   * Stops watching the file. Pending reloads are discarded.
+   */
+  close(): void;
+};
+
+/**
+ * Watches a file and reloads it on every change.
+ *
+ * The parent directory is watched rather than the file itself, so that
+ * editors replacing the file through a rename are followed. The file is
+ * loaded once immediately, then again after each burst of changes.
+ *
+ * @param filePath - Path to the file to watch
+ * @param load - Loads the file, throwing on any failure
+ * @param listener - Called with each new valid value
+ * @param options - Watch options
+ * @returns A handle to stop watching
+ */
+export function watchFile<T>(
+  filePath: string,
+  load: (filePath: string) => Promise<T>,
+  listener: WatchListener<T>,
+  options: WatchOptions,
+): WatchHandle<T> {
+  const { debounce = 100, onError, onListenerError } = options;
+  const fileName = path.basename(filePath);
+
+  let current: T | undefined;
+  let closed = false;
+  let loading = false;
+  let pending = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  function reportError(error: unknown) {
+    if (closed || onError === undefined) {
+      return;
+    }
+    onError(
+      error instanceof ZodFileError
+        ? error
+        : new ZodFileError(
+            'FileRead',
+            `Failed to reload watched file: ${filePath}`,
+            error instanceof Error ? error : new Error(String(error)),
+          ),
+    );
+  }
+
+  async function reload() {
+    if (loading) {
+      pending = true;
+      return;
+    }
+    loading = true;
+    let loaded: { data: T } | undefined;
+    try {
+      loaded = { data: await load(filePath) };
+    } catch (error) {
+      reportError(error);
+    } finally {
+      loading = false;
+    }
+    try {
+      if (loaded !== undefined && !closed) {
+        notify(loaded.data);
+      }
+    } finally {
+      if (pending && !closed) {
+        pending = false;
+        void reload();
+      }
+    }
+  }
+
+  function notify(data: T) {
+    const previous = current;
+    current = data;
+    // Listener errors are not load failures, so they are not reported to onError
+    if (onListenerError === undefined) {
+      listener(data, previous);
+      return;
+    }
+    try {
+      listener(data, previous);
+    } catch (error) {
+      onListenerError(error);
+    }
+  }
+
+  function schedule() {
+    if (closed) {
+      return;
+    }
+    clearTimeout(timer);
+    timer = setTimeout(() => void reload(), debounce);
+  }
+
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(path.dirname(filePath), (_event, changed) => {
+      // Some platforms do not report the file name
+      if (changed === null || changed === fileName) {
+        schedule();
+      }
+    });
+  } catch (error) {
+    throw new ZodFileError(
+      'FileRead',
+      `Failed to watch file: ${filePath}`,
+      error instanceof Error ? error : new Error(String(error)),
+    );
+  }
+  watcher.on('error', (error) => {
+    reportError(
+      new ZodFileError('FileRead', `Failed to watch file: ${filePath}`, error),
+    );
+  });
+
+  void reload();
+
+  return {
+    get current() {
+      return current;
+    },
+    close() {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      clearTimeout(timer);
+      watcher.close();
+    },
+  };
+}
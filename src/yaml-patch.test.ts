@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+
+import { annotateYAML, commentOutYAML, patchYAML } from './yaml-patch';
+
+const document = `# Application settings
+name: app # display name
+debug: false
+
+# Server options
+server:
+  host: localhost
+  port: 8080
+
+tags:
+  - a
+  - b
+notes: |
+  Line one
+  Line two
+`;
+
+describe('patchYAML', () => {
+  it('should return the document unchanged when nothing changed', () => {
+    expect(
+      patchYAML(document, {
+        name: 'app',
+        debug: false,
+        server: { host: 'localhost', port: 8080 },
+        tags: ['a', 'b'],
+        notes: 'Line one\nLine two\n',
+      }),
+    ).toBe(document);
+  });
+
+  it('should replace changed scalars and keep comments', () => {
+    expect(
+      patchYAML(document, {
+        name: 'renamed',
+        debug: true,
+        server: { host: 'localhost', port: 9090 },
+        tags: ['a', 'b'],
+        notes: 'Line one\nLine two\n',
+      }),
+    ).toBe(`# Application settings
+name: renamed # display name
+debug: true
+
+# Server options
+server:
+  host: localhost
+  port: 9090
+
+tags:
+  - a
+  - b
+notes: |
+  Line one
+  Line two
+`);
+  });
+
+  it('should remove deleted keys and insert added keys', () => {
+    expect(
+      patchYAML(document, {
+        name: 'app',
+        server: { host: 'localhost', port: 8080, tls: true },
+        tags: ['a', 'b'],
+        notes: 'Line one\nLine two\n',
+        mode: 'dark',
+      }),
+    ).toBe(`# Application settings
+name: app # display name
+
+# Server options
+server:
+  host: localhost
+  port: 8080
+  tls: true
+
+tags:
+  - a
+  - b
+notes: |
+  Line one
+  Line two
+mode: dark
+`);
+  });
+
+  it('should rewrite changed sequences', () => {
+    expect(
+      patchYAML(document, {
+        name: 'app',
+        debug: false,
+        server: { host: 'localhost', port: 8080 },
+        tags: ['c'],
+        notes: 'Line one\nLine two\n',
+      }),
+    ).toContain('\n\ntags:\n  - c\nnotes: |\n');
+  });
+
+  it('should give up on anchors and aliases', () => {
+    const content = 'base: &base\n  a: 1\nother: *base\n';
+
+    expect(patchYAML(content, { base: { a: 2 }, other: { a: 2 } })).toBe(
+      undefined,
+    );
+  });
+
+  it('should give up on documents that are not mappings', () => {
+    expect(patchYAML('- a\n- b\n', { a: 1 })).toBeUndefined();
+    expect(patchYAML('invalid: yaml: [', { a: 1 })).toBeUndefined();
+  });
+});
+
+describe('annotateYAML', () => {
+  const annotations = [
+    { path: ['name'], lines: ['Display name'] },
+    { path: ['server'], lines: ['Server options'] },
+    { path: ['server', 'port'], lines: ['Port to listen on', 'Default: 80'] },
+    { path: ['missing'], lines: ['Not in the file'] },
+  ];
+
+  it('should write comments above keys', () => {
+    expect(annotateYAML('name: app\nserver:\n  port: 8080\n', annotations))
+      .toBe(`# Display name
+name: app
+# Server options
+server:
+  # Port to listen on
+  # Default: 80
+  port: 8080
+`);
+  });
+
+  it('should not repeat existing comments', () => {
+    const content = annotateYAML(
+      'name: app\nserver:\n  port: 8080\n',
+      annotations,
+    );
+
+    expect(annotateYAML(content, annotations)).toBe(content);
+  });
+});
+
+describe('commentOutYAML', () => {
+  it('should comment out keys with their values', () => {
+    expect(
+      commentOutYAML(
+        'name: app\nserver:\n  port: 8080\n  hosts:\n    - a\nproxy:\n  url: x\n',
+        [['server', 'hosts'], ['proxy']],
+      ),
+    ).toBe(
+      'name: app\nserver:\n  port: 8080\n  # hosts:\n  #   - a\n# proxy:\n#   url: x\n',
+    );
+  });
+});
@@ -0,0 +1,385 @@
+import * as YAML from 'js-yaml';
+
+import { type Annotation, commentLines, hasComments } from './annotate';
+import {
+  type LineEdit,
+  applyEdits,
+  definedKeys,
+  isEqual,
+  isPlainObject,
+  samePath,
+} from './patch';
+
+/**
+ * A `key: value` line of a block mapping, with the lines of its value.
+ */
+type Entry = {
+  path: string[];
+  key: string;
+  /**
+   * Index of the line of the key.
+   */
+  line: number;
+  indent: number;
+  /**
+   * Column of the value on the key line.
+   */
+  valueStart: number;
+  /**
+   * Column after the value on the key line, before any comment.
+   */
+  valueEnd: number;
+  /**
+   * The value on the key line, empty for nested blocks.
+   */
+  inline: string;
+  /**
+   * Index after the last line of the value, excluding trailing blank and
+   * comment lines.
+   */
+  end: number;
+};
+
+const keyPattern =
+  /^( *)("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"[\]{},&*!|>%@`?-][^#]*?|-[^\s#][^#]*?)[ \t]*:(?=\s|$)[ \t]*(.*)$/;
+
+function isContent(line: string): boolean {
+  return line.trim() !== '' && !line.trimStart().startsWith('#');
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Returns the length of a value without its trailing comment.
+ */
+function valueLength(rest: string): number {
+  let quote: string | undefined;
+  for (let i = 0; i < rest.length; i++) {
+    const char = rest[i];
+    if (quote !== undefined) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if ((char === '"' || char === "'") && i === 0) {
+      quote = char;
+    } else if (char === '#' && /\s/.test(rest[i - 1] ?? ' ')) {
+      return rest.slice(0, i).trimEnd().length;
+    }
+  }
+  return rest.trimEnd().length;
+}
+
+function parseKey(text: string): string {
+  if (text.startsWith('"') || text.startsWith("'")) {
+    return String(YAML.load(text));
+  }
+  return text.trim();
+}
+
+/**
+ * Finds the block mapping entries of a YAML document.
+ *
+ * Keys inside sequences, flow collections and block scalars are not indexed:
+ * their values are replaced as a whole.
+ */
+function indexEntries(lines: string[]): Entry[] | undefined {
+  const entries: Entry[] = [];
+  const stack: { indent: number; key?: string }[] = [];
+  let scalarIndent: number | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!isContent(line)) {
+      continue;
+    }
+    const indent = indentOf(line);
+    if (/^(---|\.\.\.)(\s|$)/.test(line)) {
+      // Only a single document, optionally starting with a marker
+      if (entries.length > 0 || line.startsWith('...')) {
+        return undefined;
+      }
+      continue;
+    }
+    if (scalarIndent !== undefined) {
+      if (indent > scalarIndent) {
+        continue;
+      }
+      scalarIndent = undefined;
+    }
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    const match = keyPattern.exec(line);
+    const opaque = stack.some((frame) => frame.key === undefined);
+    if (match === null || opaque) {
+      if (line.trimStart().startsWith('-')) {
+        stack.push({ indent });
+      }
+      continue;
+    }
+
+    const [, , keyText, rest] = match;
+    if (/^[&*!]/.test(rest)) {
+      // Anchors, aliases and tags cannot be patched safely
+      return undefined;
+    }
+    const key = parseKey(keyText);
+    const inline = rest.slice(0, valueLength(rest));
+    entries.push({
+      path: [...stack.map((frame) => frame.key ?? ''), key],
+      key,
+      line: i,
+      indent,
+      valueStart: line.length - rest.length,
+      valueEnd: line.length - rest.length + inline.length,
+      inline,
+      end: i + 1,
+    });
+    stack.push({ indent, key });
+    if (/^[|>]/.test(inline)) {
+      scalarIndent = indent;
+    }
+  }
+
+  // Find the end of each value
+  for (const entry of entries) {
+    let end = entry.line + 1;
+    for (let i = entry.line + 1; i < lines.length; i++) {
+      const line = lines[i];
+      if (!isContent(line)) {
+        continue;
+      }
+      const indent = indentOf(line);
+      const sequence =
+        entry.inline === '' &&
+        indent === entry.indent &&
+        /^-(\s|$)/.test(line.trimStart());
+      if (indent < entry.indent || (indent === entry.indent && !sequence)) {
+        break;
+      }
+      end = i + 1;
+    }
+    entry.end = end;
+  }
+  return entries;
+}
+
+function dumpLines(value: Record<string, unknown>, indent: number): string[] {
+  const prefix = ' '.repeat(indent);
+  return YAML.dump(value, { indent: 2, lineWidth: 80 })
+    .trimEnd()
+    .split('\n')
+    .map((line) => prefix + line);
+}
+
+function dumpInline(value: unknown): string | undefined {
+  const text = YAML.dump(value, { flowLevel: 0, lineWidth: -1 }).trimEnd();
+  return text.includes('\n') ? undefined : text;
+}
+
+/**
+ * Applies changes to a YAML document, keeping its comments, key order and
+ * blank lines.
+ *
+ * Changed scalars are replaced in place, removed keys are deleted, and added
+ * keys are inserted at the end of their mapping. Other changed values are
+ * rewritten as a whole.
+ *
+ * @param original - The content of the existing file
+ * @param data - The new data
+ * @returns The patched content, or undefined if the document cannot be patched
+ */
+export function patchYAML(original: string, data: unknown): string | undefined {
+  let previous: unknown;
+  try {
+    previous = YAML.load(original);
+  } catch {
+    return undefined;
+  }
+  if (!isPlainObject(previous) || !isPlainObject(data)) {
+    return undefined;
+  }
+
+  const lines = original.split('\n');
+  const indexed = indexEntries(lines);
+  if (indexed === undefined) {
+    return undefined;
+  }
+  const entries = indexed;
+
+  const edits: LineEdit[] = [];
+
+  function childrenOf(path: string[]): Entry[] {
+    return entries.filter((entry) => samePath(entry.path.slice(0, -1), path));
+  }
+
+  function replaceEntry(entry: Entry, value: unknown): void {
+    const line = lines[entry.line];
+    const singleLine = entry.end === entry.line + 1;
+    const flow = /^[[{]/.test(entry.inline);
+    const scalar = !Array.isArray(value) && !isPlainObject(value);
+    if (singleLine && (scalar || flow) && !/^[|>]/.test(entry.inline)) {
+      const text = dumpInline(value);
+      if (text !== undefined) {
+        const before = line.slice(0, entry.valueStart).trimEnd();
+        const after = line.slice(entry.valueEnd);
+        edits.push({
+          start: entry.line,
+          end: entry.end,
+          lines: [`${before} ${text}${after}`],
+          depth: entry.path.length,
+        });
+        return;
+      }
+    }
+    edits.push({
+      start: entry.line,
+      end: entry.end,
+      lines: dumpLines({ [entry.key]: value }, entry.indent),
+      depth: entry.path.length,
+    });
+  }
+
+  function patchMapping(
+    path: string[],
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+  ): boolean {
+    const children = childrenOf(path);
+    if (children.length === 0 || definedKeys(after).length === 0) {
+      // Rewrite empty mappings as a whole
+      return false;
+    }
+    const indent = children[0].indent;
+    const insertAt = Math.max(...children.map((child) => child.end));
+    const mark = edits.length;
+
+    const added: Record<string, unknown> = {};
+    for (const key of definedKeys(before)) {
+      const entry = children.find((child) => child.key === key);
+      if (entry === undefined) {
+        // Discard the edits of this mapping
+        edits.length = mark;
+        return false;
+      }
+      if (!(key in after) || after[key] === undefined) {
+        edits.push({
+          start: entry.line,
+          end: entry.end,
+          lines: [],
+          depth: entry.path.length,
+        });
+      } else if (isEqual(before[key], after[key])) {
+        continue;
+      } else if (
+        isPlainObject(before[key]) &&
+        isPlainObject(after[key]) &&
+        entry.inline === '' &&
+        childrenOf(entry.path).length > 0
+      ) {
+        if (!patchMapping(entry.path, before[key], after[key])) {
+          replaceEntry(entry, after[key]);
+        }
+      } else {
+        replaceEntry(entry, after[key]);
+      }
+    }
+    for (const key of definedKeys(after)) {
+      if (before[key] === undefined) {
+        added[key] = after[key];
+      }
+    }
+    if (Object.keys(added).length > 0) {
+      edits.push({
+        start: insertAt,
+        end: insertAt,
+        lines: dumpLines(added, indent),
+        depth: path.length + 1,
+      });
+    }
+    return true;
+  }
+
+  if (!patchMapping([], previous, data)) {
+    return undefined;
+  }
+  return applyEdits(lines, edits).join('\n');
+}
+
+/**
+ * Writes comments above the keys of a YAML document. Comments that are
+ * already there are not repeated.
+ *
+ * @param content - The YAML document
+ * @param annotations - The comments to write
+ * @returns The annotated document
+ */
+export function annotateYAML(
+  content: string,
+  annotations: Annotation[],
+): string {
+  const lines = content.split('\n');
+  const entries = indexEntries(lines);
+  if (entries === undefined) {
+    return content;
+  }
+  const edits: LineEdit[] = [];
+  for (const annotation of annotations) {
+    const entry = entries.find((candidate) =>
+      samePath(candidate.path, annotation.path),
+    );
+    if (entry === undefined) {
+      continue;
+    }
+    const comments = commentLines(annotation, '#', ' '.repeat(entry.indent));
+    if (!hasComments(lines, entry.line, comments)) {
+      edits.push({
+        start: entry.line,
+        end: entry.line,
+        lines: comments,
+        depth: entry.path.length,
+      });
+    }
+  }
+  return applyEdits(lines, edits).join('\n');
+}
+
+/**
+ * Comments out keys of a YAML document, with their values.
+ *
+ * @param content - The YAML document
+ * @param paths - The paths of the keys to comment out
+ * @returns The document with the keys commented out
+ */
+export function commentOutYAML(content: string, paths: string[][]): string {
+  const lines = content.split('\n');
+  const entries = indexEntries(lines);
+  if (entries === undefined) {
+    return content;
+  }
+  const edits: LineEdit[] = [];
+  for (const path of paths) {
+    const entry = entries.find((candidate) => samePath(candidate.path, path));
+    if (entry === undefined) {
+      continue;
+    }
+    edits.push({
+      start: entry.line,
+      end: entry.end,
+      lines: lines
+        .slice(entry.line, entry.end)
+        .map((line) =>
+          line.trim() === ''
+            ? line
+            : `${line.slice(0, entry.indent)}# ${line.slice(entry.indent)}`,
+        ),
+      depth: entry.path.length,
+    });
+  }
+  return applyEdits(lines, edits).join('\n');
+}
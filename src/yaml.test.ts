@@ -1,5 +1,6 @@
 import fs from 'node:fs/promises';
 
+import * as YAML from 'js-yaml';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { z } from 'zod';
 
@@ -8,12 +9,18 @@ import { createZodYAML } from './yaml';
 
 vi.mock('node:fs/promises');
 const mockFsPromises = vi.mocked(fs);
+const mockFileHandle = {
+  sync: vi.fn(),
+  close: vi.fn(),
+} as unknown as fs.FileHandle;
 
 const testFile = '/tmp/zod-file-test.yaml';
 
 describe('createZodYAML', () => {
   beforeEach(() => {
     vi.resetAllMocks();
+    mockFsPromises.open.mockResolvedValue(mockFileHandle);
+    mockFsPromises.realpath.mockRejectedValue(new Error('ENOENT'));
   });
 
   describe('basic load and save', () => {
@@ -140,6 +147,123 @@ describe('createZodYAML', () => {
     });
   });
 
+  describe('version envelope', () => {
+    it('should store the version in a header comment', async () => {
+      const schema = z.object({ theme: z.string() });
+
+      const store = createZodYAML({
+        schema,
+        version: 2 as const,
+        envelope: { type: 'comment' },
+        migrations: [
+          {
+            version: 1,
+            schema,
+            migrate: (v1: { theme: string }) => ({ theme: v1.theme.trim() }),
+          },
+        ],
+      });
+
+      await store.save({ theme: 'dark' }, testFile);
+
+      const writtenContent = mockFsPromises.writeFile.mock
+        .calls[0]?.[1] as string;
+      expect(writtenContent).toBe('# version: 2\ntheme: dark');
+
+      mockFsPromises.readFile.mockResolvedValue(
+        "# version: 1\ntheme: ' light '\n",
+      );
+      await expect(store.load(testFile)).resolves.toEqual({ theme: 'light' });
+    });
+  });
+
+  describe('preserving formatting', () => {
+    it('should keep comments when updating a file', async () => {
+      const schema = z.object({ theme: z.string(), fontSize: z.number() });
+      const store = createZodYAML({
+        schema,
+        version: 1 as const,
+        envelope: { type: 'comment' },
+        preserveFormatting: true,
+      });
+      mockFsPromises.readFile.mockResolvedValue(
+        '# version: 1\n# Editor settings\ntheme: dark # or light\n\nfontSize: 12\n',
+      );
+
+      const data = await store.load(testFile);
+      await store.save({ ...data, fontSize: 14 }, testFile);
+
+      const writtenContent = mockFsPromises.writeFile.mock
+        .calls[0]?.[1] as string;
+      expect(writtenContent).toBe(
+        '# version: 1\n# Editor settings\ntheme: dark # or light\n\nfontSize: 14\n',
+      );
+    });
+  });
+
+  describe('annotations', () => {
+    it('should write schema descriptions as comments', async () => {
+      const schema = z.object({
+        theme: z
+          .enum(['light', 'dark'])
+          .default('light')
+          .describe('Color theme of the editor'),
+        editor: z
+          .object({ fontSize: z.number().describe('Font size in points') })
+          .describe('Editor options'),
+      });
+      const store = createZodYAML({ schema });
+
+      await store.save({ theme: 'dark', editor: { fontSize: 14 } }, testFile, {
+        annotate: true,
+      });
+
+      const writtenContent = mockFsPromises.writeFile.mock
+        .calls[0]?.[1] as string;
+      expect(writtenContent).toBe(`# Color theme of the editor
+# Default: "light"
+# Allowed values: "light", "dark"
+theme: dark
+# Editor options
+editor:
+  # Font size in points
+  fontSize: 14`);
+      expect(YAML.load(writtenContent)).toEqual({
+        theme: 'dark',
+        editor: { fontSize: 14 },
+      });
+    });
+  });
+
+  describe('init', () => {
+    it('should write a documented starter file', async () => {
+      const schema = z.object({
+        theme: z.enum(['light', 'dark']).default('light').describe('Theme'),
+        proxy: z
+          .object({ url: z.string() })
+          .optional()
+          .describe('Proxy for requests'),
+      });
+      const store = createZodYAML({ schema });
+      mockFsPromises.access.mockRejectedValue(
+        Object.assign(new Error('File not found'), { code: 'ENOENT' }),
+      );
+
+      await store.init(testFile, { annotate: true, includeOptional: true });
+
+      const writtenContent = mockFsPromises.writeFile.mock
+        .calls[0]?.[1] as string;
+      expect(writtenContent).toBe(`# Theme
+# Default: "light"
+# Allowed values: "light", "dark"
+theme: light
+# Proxy for requests
+# proxy:
+#   url: ''`);
+      expect(YAML.load(writtenContent)).toEqual({ theme: 'light' });
+    });
+  });
+
   describe('YAML parsing errors', () => {
     it('should throw InvalidFormat for malformed YAML', async () => {
       const schema = z.object({
@@ -1,13 +1,22 @@
 import * as YAML from 'js-yaml';
 
+import { type Annotation } from './annotate';
 import {
   type Serializer,
   type ZodFile,
   type ZodFileOptions,
   createZodFile,
 } from './persistence';
+import { annotateYAML, commentOutYAML, patchYAML } from './yaml-patch';
 
-const YAMLSerializer: Serializer = {
+/**
+ * Built-in YAML serializer.
+ *
+ * Uses `js-yaml` with 2-space indentation for pretty output, or flow style
+ * on a single line when compact is true. Supports patching existing files to
+ * keep their comments and layout, and annotating keys with comments.
+ */
+export const yamlSerializer: Serializer = {
   formatName: 'YAML',
   parse(content: string): unknown {
     return YAML.load(content);
@@ -19,6 +28,16 @@ const YAMLSerializer: Serializer = {
       lineWidth: compact ? -1 : 80,
     }).trimEnd();
   },
+  commentPrefix: '#',
+  patch(original: string, data: unknown): string | undefined {
+    return patchYAML(original, data);
+  },
+  annotate(content: string, annotations: Annotation[]): string {
+    return annotateYAML(content, annotations);
+  },
+  commentOut(content: string, paths: string[][]): string {
+    return commentOutYAML(content, paths);
+  },
 } as const;
 
 /**
@@ -73,5 +92,5 @@ export function createZodYAML<
   V extends number,
   T extends Record<string, unknown>,
 >(options: ZodFileOptions<V, T>): ZodFile<T> {
-  return createZodFile(options, YAMLSerializer);
+  return createZodFile(options, yamlSerializer);
 }
@@ -5,11 +5,21 @@ import { ErrorCode, ZodFileError } from './src/errors';
 /**
  * Custom matcher to assert that a promise rejects with a ZodFileError with a specific code.
  * Works with `.rejects` modifier - Vitest handles the promise rejection, we just validate the error.
+ * Also works with a function, which is called to validate the error it throws.
  */
 expect.extend({
   toThrowZodFileError(received: unknown, expectedCode?: ErrorCode) {
     const { matcherHint, printExpected, printReceived } = this.utils;
 
+    if (typeof received === 'function') {
+      try {
+        (received as () => unknown)();
+        received = undefined;
+      } catch (error) {
+        received = error;
+      }
+    }
+
     // When using .rejects, Vitest catches the rejection and passes the error here
     if (!(received instanceof ZodFileError)) {
       return {